@@ -1,27 +1,68 @@
-import axios from "axios";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
 import fs from "fs";
 import path from "path";
 import WebSocketImpl from "ws";
 import { ZapdosBaseClient } from "./base-client";
-import { QueryBuilder, UnselectedQueryBuilder } from "./resource-request-builder";
+import { downloadFiles, sha256File, type DownloadOptions, type DownloadResult } from "./download";
+import { ZapdosSubscription, type SubscriptionOptions } from "./subscription";
+import {
+  DEFAULT_MANIFEST_NAME,
+  pathFilter,
+  readManifest,
+  walkDirectory,
+  writeManifest,
+  type SyncManifest,
+  type SyncOptions,
+  type SyncResult
+} from "./sync";
+import { DEFAULT_TOKEN_TTL, MAX_TOKEN_TTL, type BrowserToken, type BrowserTokenOptions } from "./token";
+import { QueryBuilder, type ColumnPath } from "./resource-request-builder";
+import { ZapdosError } from "./errors";
+import { combineSignals } from "./transport";
+import { UploadQueue } from "./upload-queue";
+import { chunk, handleStream, parseNDJSONStream, updateObjectMetadata } from "./utils";
 import type {
   BackendClientOptions,
+  BackendUploadOptions,
+  BaseObjectMetadata,
   Environment,
+  FileTypeOverride,
   GetUploadUrlsResult,
+  JobCallbacks,
   JobItem,
+  JobStatus,
+  Maybe,
+  MultipartUploadState,
   ObjectStorageItem,
-  SearchResultItem,
+  UpdateMetadataReturnedJSON,
   UploadCallbacksWithFileIndex,
   UploadItem,
+  UploadSource,
   VideoObject,
-  WebSocketOptions
+  WaitForJobOptions
 } from "./types";
 
-export class BackendZapdosClient extends ZapdosBaseClient {
+const FINAL_JOB_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+/**
+ * Browser tokens are signed with HMAC-SHA256(apiKey, TOKEN_SECRET_CONTEXT),
+ * never with the API key itself.
+ */
+const TOKEN_SECRET_CONTEXT = "zapdos-browser-token-v1";
+
+/** Hashes per query when looking for content stored before. */
+const HASH_BATCH_SIZE = 100;
+
+export class BackendZapdosClient<M extends object = {}> extends ZapdosBaseClient<M> {
   public get environment(): Environment {
     return "backend";
   }
   public readonly apiKey: string;
+  /** ID of the API key, put in the `kid` of browser tokens. */
+  public readonly keyId?: string;
+  /** Shared by concurrent `waitForJob()` calls, and closed after the last. */
+  private jobEvents?: { subscription: ZapdosSubscription; waiting: number };
 
   // Enforce API key in constructor
   constructor(options: BackendClientOptions) {
@@ -35,10 +76,41 @@ export class BackendZapdosClient extends ZapdosBaseClient {
     }
 
     this.apiKey = options.apiKey;
+    this.keyId = options.keyId;
+  }
+
+
+  protected async resolveAuthHeader() {
+    return this.getAuthHeader();
   }
 
-  from<T>(resource: string): UnselectedQueryBuilder<T> {
-    return new UnselectedQueryBuilder<T>(this.baseUrl, this.getAuthHeader(), resource);
+  /**
+   * Sign a short-lived token for a browser client, limited to `scopes` and
+   * optionally to some objects. The `kid` is the key ID given to the client,
+   * and the signing secret is derived from the API key: tokens reveal
+   * nothing about the key, and the API verifies them with the derived secret
+   * rather than the key itself.
+   */
+  createBrowserToken(options: BrowserTokenOptions): Maybe<BrowserToken> {
+    const ttl = options.ttl ?? DEFAULT_TOKEN_TTL;
+    if (!this.keyId) {
+      return { error: new ZapdosError("validation", "Browser tokens need the ID of the API key: pass `keyId` to createClient()") };
+    }
+    if (!options.scopes?.length) {
+      return { error: new ZapdosError("validation", "At least one scope is required") };
+    }
+    if (!(ttl > 0 && ttl <= MAX_TOKEN_TTL)) {
+      return { error: new ZapdosError("validation", `ttl must be between 1 and ${MAX_TOKEN_TTL} seconds`) };
+    }
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + Math.floor(ttl);
+    const secret = crypto.createHmac("sha256", this.apiKey).update(TOKEN_SECRET_CONTEXT).digest();
+    const token = jwt.sign(
+      { scopes: options.scopes, ...(options.objectIds ? { object_ids: options.objectIds } : {}), iat, exp },
+      secret,
+      { algorithm: "HS256", keyid: this.keyId },
+    );
+    return { data: { token, expires_at: new Date(exp * 1000).toISOString() } };
   }
 
   getAuthHeader(): Record<string, string> {
@@ -49,157 +121,82 @@ export class BackendZapdosClient extends ZapdosBaseClient {
 
   // Convenient methods to query
 
-  videos() {
-    return this.from<VideoObject>("object_storage")
+  // TypeScript can't resolve column paths while `M` is still generic, so the
+  // filter column is cast; it belongs to the base metadata of every object.
+
+  videos(): QueryBuilder<VideoObject<M>> {
+    return this.from<VideoObject<M>>("object_storage")
       .select()
-      .where("metadata->>'content_type'", "~", "^video/");
+      .where("metadata->>'content_type'" as ColumnPath<VideoObject<M>>, "~", "^video/");
   }
 
-  images() {
-    return this.from<ObjectStorageItem>("object_storage")
+  images(): QueryBuilder<ObjectStorageItem<M>> {
+    return this.from<ObjectStorageItem<M>>("object_storage")
       .select()
-      .where("metadata->>'content_type'", "~", "^image/");
+      .where("metadata->>'content_type'" as ColumnPath<ObjectStorageItem<M>>, "~", "^image/");
   }
 
   jobs() {
     return this.from<JobItem>("jobs").select();
   }
 
+  /**
+   * Jobs of one object, newest first.
+   */
+  jobsFor(objectId: string) {
+    return this.jobs()
+      .where("content->>'object_id'", "=", objectId)
+      .orderBy("created_at", "desc");
+  }
+
   scenes(video_id: string): QueryBuilder<ObjectStorageItem> {
     return this.from<ObjectStorageItem>("object_storage")
       .select()
-      .where("metadata->'parents'", "@>", `["${video_id}"]`)
+      .where("metadata->'parents'", "@>", [video_id])
       .where("metadata->>'kind'", "=", "scene");
   }
 
-  listen(opts: WebSocketOptions) {
+  /**
+   * Subscribe to Zapdos events over a WebSocket that reconnects by itself.
+   * `onMessage` receives every raw message; use `on()`, `subscribe()` or
+   * `for await` on the result for typed events. Call `.close()` when done.
+   */
+  listen(opts?: SubscriptionOptions) {
     // Always use ws package in backend
-    const ws = new WebSocketImpl(this.wsBaseUrl, {
-      headers: this.getAuthHeader(),
-    });
-
-    ws.onopen = (event: any) => {
-      this.logger.log("WebSocket connected");
-      opts.onOpen?.(event);
-    };
-
-    ws.onmessage = (event: any) => {
-      try {
-        const data = JSON.parse(event.data);
-        try {
-          opts.onMessage?.(data);
-        } catch (error) {
-          this.logger.error("Error in onMessage callback:", error);
-        }
-      } catch (error) {
-        this.logger.error("Failed to parse WebSocket message:", error);
-      }
-    };
-
-    ws.onerror = (error: any) => {
-      this.logger.error("WebSocket error:", error);
-      opts.onError?.(error);
-    };
-
-    ws.onclose = (event: any) => {
-      this.logger.log("WebSocket disconnected:", event.code, event.reason);
-      opts.onClose?.(event);
-    };
-
-    return ws;
+    return new ZapdosSubscription(
+      () => new WebSocketImpl(this.wsBaseUrl, { headers: this.getAuthHeader() }),
+      opts,
+      this.logger,
+    );
   }
 
-  async getUploadUrls(quantity?: number) {
+  async getUploadUrls(quantity?: number, options?: { signal?: AbortSignal }): Promise<GetUploadUrlsResult> {
     const url = `${this.baseUrl}/v1/signed-url/put`;
     const params = { quantity };
     const headers = this.getAuthHeader();
-    const response = await axios.get(url, { params, headers });
-    // New format: { data: string[] }
-    const result: GetUploadUrlsResult = response.data;
-    return result;
+    try {
+      const response = await this.retryTransport.request({ method: "GET", url, params, headers, signal: options?.signal });
+      // New format: { data: string[] }
+      return { data: response.data.data };
+    } catch (error) {
+      return { error: ZapdosError.from(error, { message: "Failed to get upload URLs" }) };
+    }
   }
 
   /**
    * Get a single signed upload URL.
    * @returns Promise with a single URL or error
    */
-  async getUploadUrl(): Promise<
-    { data: string; error?: undefined } |
-    { data?: undefined; error: { message: string } }
-  > {
+  async getUploadUrl(): Promise<Maybe<string>> {
     const result = await this.getUploadUrls(1);
     if (result.error) return result; // pass through error
     if (!result.data || !result.data[0]) {
-      return { error: { message: "No upload URL returned from server" } };
+      return { error: new ZapdosError("invalid_response", "No upload URL returned from server") };
     }
     return { data: result.data[0] };
   }
 
-  /**
-   * Search by text using embeddings. Example:
-   *   client.search("cats playing piano", { limit: 5, object_ids: ["id1", "id2"] })
-   * @param text The search query
-   * @param options Optional search options (e.g., { limit, object_ids })
-   * @returns Promise with result type: { data, error? } | { error, data? }
-   */
-  async search(
-    text: string,
-    options?: { limit?: number; object_ids?: string[]; video_id?: string }
-  ): Promise<
-    { data: { items: SearchResultItem[] }; error?: undefined } |
-    { data?: undefined; error: { message: string } }
-  > {
-    text = text.trim();
-    if (!text) {
-      return { error: { message: "Search text is empty" } };
-    }
-    const url = `${this.baseUrl}/v1/search`;
-    const headers = {
-      ...this.getAuthHeader(),
-      "Content-Type": "application/json",
-    };
-    const body: any = {
-      text,
-    };
-    if (options?.limit != null) body.limit = options.limit;
-    if (options?.object_ids && Array.isArray(options.object_ids) && options.object_ids.length > 0) {
-      body.object_ids = options.object_ids;
-    }
-    if (options?.video_id) {
-      body.video_id = options.video_id;
-    }
-    try {
-      const response = await axios.post(url, body, { headers });
-      return { data: response.data.data };
-    } catch (error: any) {
-      return { error: { message: error?.message ?? "Search failed" } };
-    }
-  }
 
-  /**
-   * Get signed download URLs for object IDs.
-   * @param ids Array of object IDs
-   * @returns Promise with URLs and expiry, or error
-   */
-  async getDownloadUrls(
-    ids: string[]
-  ): Promise<
-    { data: { urls: Record<string, string>; expires_at: string }; error?: undefined } |
-    { data?: undefined; error: { message: string } }
-  > {
-    if (!Array.isArray(ids) || ids.length === 0) {
-      return { error: { message: "No IDs provided" } };
-    }
-    const url = `${this.baseUrl}/v1/signed-url/get`;
-    const headers = this.getAuthHeader();
-    const params = { ids: ids.join(",") };
-    try {
-      const response = await axios.get(url, { params, headers });
-      return { data: response.data.data };
-    } catch (error: any) {
-      return { error: { message: error?.message ?? "Failed to get download URLs" } };
-    }
-  }
 
   /**
    * Get a single signed download URL for an object ID.
@@ -208,15 +205,12 @@ export class BackendZapdosClient extends ZapdosBaseClient {
    */
   async getDownloadUrl(
     id: string
-  ): Promise<
-    { data: { url: string; expires_at: string }; error?: undefined } |
-    { data?: undefined; error: { message: string } }
-  > {
+  ): Promise<Maybe<{ url: string; expires_at: string }>> {
     const result = await this.getDownloadUrls([id]);
     if (result.error) return result; // pass through error
     const url = result.data.urls[id];
     if (!url) {
-      return { error: { message: `No download URL returned for id: ${id}` } };
+      return { error: new ZapdosError("not_found", `No download URL returned for id: ${id}`) };
     }
 
     console.log('getDownloadUrl result:', result);
@@ -228,106 +222,527 @@ export class BackendZapdosClient extends ZapdosBaseClient {
    */
   async download(
     id: string,
-    dest: string
-  ): Promise<
-    { data: { file: string }; error?: undefined } |
-    { data?: undefined; error: { message: string } }
-  > {
+    dest: string,
+    options?: DownloadOptions
+  ): Promise<Maybe<{ file: string }>> {
     // If dest ends with a path separator or is a directory, treat as directory, else as file path
     const isDir = dest.endsWith(path.sep) || fs.existsSync(dest) && fs.statSync(dest).isDirectory();
     const destPath = isDir ? path.join(dest, id) : dest;
-    const batch = await this.downloadBatchWithPaths([{ id, destPath }]);
+    const batch = await this.downloadBatchWithPaths([{ id, destPath }], options);
     if (batch.error) return { error: batch.error };
-    return { data: { file: batch.data.files[0] } };
+    const [result] = batch.data.results;
+    if (result.error) return { error: result.error };
+    return { data: { file: result.file } };
   }
 
   /**
    * Download multiple files by object IDs to a local directory.
+   * `files` lists the downloaded paths; `results` has the outcome of every
+   * file, in the order of `ids`.
    */
   async downloadBatch(
     ids: string[],
-    destDir: string
-  ): Promise<
-    { data: { files: string[] }; error?: undefined } |
-    { data?: undefined; error: { message: string } }
-  > {
+    destDir: string,
+    options?: DownloadOptions
+  ): Promise<Maybe<{ files: string[]; results: DownloadResult[] }>> {
     const pairs = ids.map(id => ({ id, destPath: path.join(destDir, id) }));
-    return this.downloadBatchWithPaths(pairs);
+    return this.downloadBatchWithPaths(pairs, options);
   }
 
   /**
-   * Download multiple files by object IDs to custom file paths.
+   * Download multiple files by object IDs to custom file paths, checking
+   * each against the size and checksum recorded for its object (files are
+   * downloaded unchecked if those can't be looked up). A failed file doesn't
+   * stop the others; a cancelled batch resolves with an `aborted` error and
+   * keeps its `.part` files to resume from.
    */
   private async downloadBatchWithPaths(
-    pairs: { id: string; destPath: string }[]
-  ): Promise<
-    { data: { files: string[] }; error?: undefined } |
-    { data?: undefined; error: { message: string } }
-  > {
-    const ids = pairs.map(p => p.id);
-    const urlsResult = await this.getDownloadUrls(ids);
+    pairs: { id: string; destPath: string }[],
+    options?: DownloadOptions
+  ): Promise<Maybe<{ files: string[]; results: DownloadResult[] }>> {
+    const signal = options?.signal;
+    const ids = [...new Set(pairs.map(p => p.id))];
+    const [urlsResult, objectsResult] = await Promise.all([
+      this.getDownloadUrls(ids, { signal }),
+      this.from("object_storage").select("id", "metadata").where("id", "in", ids).limit(ids.length).abortSignal(signal),
+    ]);
     if (urlsResult.error) return { error: urlsResult.error };
-    const { urls } = urlsResult.data;
-    const files: string[] = [];
-    for (const { id, destPath } of pairs) {
-      const url = urls[id];
-      if (!url) continue;
-      try {
-        const response = await axios.get(url, { responseType: "stream" });
-        await new Promise<void>((resolve, reject) => {
-          const writer = fs.createWriteStream(destPath);
-          response.data.pipe(writer);
-          writer.on("finish", () => resolve());
-          writer.on("error", reject);
-        });
-        files.push(destPath);
-      } catch (error: any) {
-        return { error: { message: `Failed to download ${id}: ${error?.message ?? "Unknown error"}` } };
-      }
+    if (objectsResult.error) {
+      if (signal?.aborted) return { error: ZapdosError.aborted(signal.reason) };
+      this.logger.warn("Could not look up sizes and checksums, downloading without verification:", objectsResult.error);
     }
-    return { data: { files } };
+    const { urls } = urlsResult.data;
+    const metadata = new Map((objectsResult.data ?? []).map((object) => [object.id, object.metadata as ObjectStorageItem["metadata"]]));
+
+    const results = await downloadFiles({
+      transport: this.transport,
+      retry: this.retryPolicy,
+      targets: pairs.map(({ id, destPath }) => ({
+        id,
+        destPath,
+        url: urls[id],
+        size: metadata.get(id)?.size,
+        sha256: options?.checksums?.[id] ?? metadata.get(id)?.sha256,
+      })),
+      options,
+    });
+    if (signal?.aborted) return { error: ZapdosError.aborted(signal.reason) };
+    return { data: { files: results.filter((result) => !result.error).map((result) => result.file), results } };
   }
 
   /**
-   * Upload a single file by file path.
+   * Upload a single file by file path, or from memory or a stream.
    */
   async upload(
-    filePath: string,
-    on?: UploadCallbacksWithFileIndex
+    file: string | UploadSource,
+    on?: UploadCallbacksWithFileIndex,
+    options?: Omit<BackendUploadOptions<M>, "fileSignals" | "fileTypes" | "fileMetadata"> & FileTypeOverride
   ) {
-    return this.uploadBatch([filePath], on);
+    const { content_type, kind, ...batchOptions } = options ?? {};
+    return this.uploadBatch([file], on, { ...batchOptions, fileTypes: [{ content_type, kind }] });
   }
 
   /**
-   * Upload multiple files by file paths.
+   * Upload multiple files by file paths, or from memory or streams. Only
+   * files uploaded by path persist their chunked upload state.
    */
   async uploadBatch(
-    filePaths: string[],
-    on?: UploadCallbacksWithFileIndex
+    files: (string | UploadSource)[],
+    on?: UploadCallbacksWithFileIndex,
+    options?: BackendUploadOptions<M>
+  ) {
+    return this.uploadFiles(files, on, options);
+  }
+
+  /**
+   * `uploadBatch()`, plus metadata fields of the SDK's own (e.g. `sha256`)
+   * stored for each file, by file index, over the user-defined ones.
+   */
+  private async uploadFiles(
+    files: (string | UploadSource)[],
+    on?: UploadCallbacksWithFileIndex,
+    options?: BackendUploadOptions<M>,
+    ownMetadata?: Partial<BaseObjectMetadata>[],
   ) {
     try {
-      const getSignedUrlsResult = await this.getUploadUrls(filePaths.length);
-      if (!getSignedUrlsResult.data || getSignedUrlsResult.data.length === 0) {
-        throw new Error("No signed URLs returned from server");
-      }
-      const items: UploadItem[] = filePaths.map((filePath, index) => {
-        const file = fs.statSync(filePath);
-        const name = path.basename(filePath);
+      const chunked = options?.chunked;
+      const stateFileFor = typeof chunked === "object" && chunked.stateFile !== undefined
+        ? chunked.stateFile
+        : (filePath: string) => `${filePath}.zapdos-upload.json`;
+      const persist = chunked && stateFileFor !== false;
+
+      const sources = files.map((file): FileSource => {
+        if (typeof file !== "string") return fromUploadSource(file);
+        const name = path.basename(file);
         if (!name) {
-          throw new Error(`Invalid file path: ${filePath}`);
+          throw new Error(`Invalid file path: ${file}`);
         }
+        const size = fs.statSync(file).size;
+        const stateFile = persist ? stateFileFor(file) : undefined;
+        const resumeState = stateFile ? readUploadState(stateFile, name, size) : undefined;
+        return {
+          name,
+          size,
+          // Opened lazily once the upload queue reaches this file
+          reopen: () => fs.createReadStream(file),
+          slice: (start, end) => fs.createReadStream(file, { start, end: end - 1 }),
+          stateFile,
+          resumeState,
+        };
+      });
+
+      // Resumed uploads keep their object, so only new files need a signed URL
+      const needUrls = sources.filter((source) => !source.resumeState).length;
+      let urls: string[] = [];
+      if (needUrls > 0) {
+        const getSignedUrlsResult = await this.getUploadUrls(needUrls, { signal: options?.signal });
+        if (getSignedUrlsResult.error) {
+          throw getSignedUrlsResult.error;
+        }
+        if (getSignedUrlsResult.data.length === 0) {
+          throw new ZapdosError("invalid_response", "No signed URLs returned from server");
+        }
+        urls = getSignedUrlsResult.data;
+      }
+
+      let nextUrl = 0;
+      const items: UploadItem[] = sources.map(({ name, size, data, reopen, slice, stateFile, resumeState }, index) => {
         return {
           name,
-          url: getSignedUrlsResult.data[index],
-          size: file.size,
-          content_type: "application/octet-stream",
-          data: fs.createReadStream(filePath),
+          url: resumeState ? undefined : urls[nextUrl++],
+          size,
+          content_type: options?.fileTypes?.[index]?.content_type,
+          kind: options?.fileTypes?.[index]?.kind,
+          metadata: ownMetadata?.[index],
+          data,
+          reopen,
+          slice,
+          resumeState,
+          onStateChange: stateFile
+            ? (state) => state ? fs.writeFileSync(stateFile, JSON.stringify(state)) : fs.rmSync(stateFile, { force: true })
+            : undefined,
+          signal: options?.fileSignals?.[index],
         };
       });
-      return this.uploadWithSignedUrls(items, on);
+      const { fileSignals: _, fileTypes: __, ...uploadOptions } = options ?? {};
+      return this.uploadWithSignedUrls(items, on, { ...uploadOptions, chunked });
     } catch (error: any) {
       this.logger.error("Error during upload:", error);
-      return { error: { message: error.message || "Upload failed" } };
+      return { error: ZapdosError.from(error, { code: "upload_failed", message: "Upload failed" }) };
+    }
+  }
+
+  /**
+   * Upload the new and changed files below `dir`. Every file is hashed, and
+   * content already stored (going by the `sha256` in its metadata) isn't
+   * uploaded again. A manifest in the directory maps each path to its object,
+   * so the next run only hashes files whose size or modification time changed.
+   */
+  async syncDirectory(dir: string, options?: SyncOptions<M>): Promise<Maybe<SyncResult>> {
+    const signal = options?.signal;
+    try {
+      const root = path.resolve(dir);
+      const manifestPath = options?.manifest === false
+        ? undefined
+        : path.resolve(root, options?.manifest ?? DEFAULT_MANIFEST_NAME);
+      const previous: SyncManifest = manifestPath ? await readManifest(manifestPath) : { version: 1, files: {} };
+      const filter = pathFilter(options?.include, options?.exclude);
+      // A custom manifest may live in the directory under any name
+      const paths = (await walkDirectory(root, filter))
+        .filter((relative) => !manifestPath || ![manifestPath, `${manifestPath}.tmp`].includes(path.join(root, relative)));
+      const result: SyncResult = { uploaded: [], existing: [], unchanged: [], failed: [], deleted: [] };
+      const manifest: SyncManifest = { version: 1, files: {} };
+
+      // Hash every file, unless the manifest saw it with the same size and time
+      const queue = new UploadQueue({ concurrency: options?.concurrency });
+      const scanned = await Promise.all(paths.map((relative) => queue.run(async () => {
+        if (signal?.aborted) throw ZapdosError.aborted(signal.reason);
+        const file = path.join(root, relative);
+        const known = previous.files[relative];
+        try {
+          const { size, mtimeMs } = await fs.promises.stat(file);
+          const sha256 = known && known.size === size && known.mtime_ms === mtimeMs ? known.sha256 : await sha256File(file);
+          return { relative, file, sha256, size, mtime_ms: mtimeMs };
+        } catch (error) {
+          result.failed.push({ path: relative, error: ZapdosError.from(error, { message: `Failed to read ${relative}` }) });
+          if (known) manifest.files[relative] = known;
+          return undefined;
+        }
+      })));
+
+      const changed: NonNullable<(typeof scanned)[number]>[] = [];
+      for (const file of scanned) {
+        if (!file) continue;
+        const known = previous.files[file.relative];
+        if (known?.sha256 === file.sha256) {
+          result.unchanged.push({ path: file.relative, object_id: known.object_id });
+          manifest.files[file.relative] = { ...known, size: file.size, mtime_ms: file.mtime_ms };
+        } else {
+          changed.push(file);
+        }
+      }
+
+      // Content stored before, by this directory or not
+      const stored = new Map<string, string>();
+      const hashes = [...new Set(changed.map((file) => file.sha256))];
+      for (const batch of chunk(hashes, HASH_BATCH_SIZE)) {
+        const query = this.from<ObjectStorageItem>("object_storage")
+          .select("id", "metadata")
+          .where("metadata->>'sha256'", "in", batch)
+          .abortSignal(signal);
+        for await (const page of query.pages()) {
+          page.forEach((object) => {
+            const sha256 = object.metadata?.sha256;
+            if (sha256 && !stored.has(sha256)) stored.set(sha256, object.id);
+          });
+        }
+      }
+
+      // Copies within the directory are uploaded once
+      const toUpload: typeof changed = [];
+      const copies = new Map<string, typeof changed>();
+      for (const file of changed) {
+        const object_id = stored.get(file.sha256);
+        if (object_id) {
+          result.existing.push({ path: file.relative, sha256: file.sha256, object_id });
+          manifest.files[file.relative] = { object_id, sha256: file.sha256, size: file.size, mtime_ms: file.mtime_ms };
+        } else if (copies.has(file.sha256)) {
+          copies.get(file.sha256)!.push(file);
+        } else {
+          copies.set(file.sha256, []);
+          toUpload.push(file);
+        }
+      }
+
+      const present = new Set(paths);
+      for (const [relative, entry] of Object.entries(previous.files)) {
+        if (present.has(relative)) continue;
+        if (filter(relative)) {
+          result.deleted.push({ path: relative, object_id: entry.object_id });
+        } else {
+          // Outside this sync's patterns, not gone
+          manifest.files[relative] = entry;
+        }
+      }
+
+      if (options?.dryRun) {
+        for (const file of toUpload) {
+          result.uploaded.push({ path: file.relative, sha256: file.sha256, size: file.size });
+          copies.get(file.sha256)!.forEach((copy) => result.existing.push({ path: copy.relative, sha256: copy.sha256 }));
+        }
+        return { data: result };
+      }
+
+      if (toUpload.length > 0) {
+        const uploads = await this.uploadFiles(
+          toUpload.map((file) => file.file),
+          options?.on,
+          { ...options?.upload, concurrency: options?.concurrency, signal },
+          // Recorded so that later syncs find the content
+          toUpload.map((file) => ({ sha256: file.sha256 })),
+        );
+        if (!Array.isArray(uploads)) return { error: uploads.error };
+        uploads.forEach((upload, i) => {
+          const file = toUpload[i];
+          const sameContent = [file, ...copies.get(file.sha256)!];
+          if (upload.error) {
+            sameContent.forEach((copy) => result.failed.push({ path: copy.relative, error: upload.error.error }));
+            return;
+          }
+          const { object_id } = upload.data;
+          result.uploaded.push({ path: file.relative, sha256: file.sha256, size: file.size, object_id });
+          sameContent.forEach((copy) => {
+            if (copy !== file) result.existing.push({ path: copy.relative, sha256: copy.sha256, object_id });
+            manifest.files[copy.relative] = { object_id, sha256: copy.sha256, size: copy.size, mtime_ms: copy.mtime_ms };
+          });
+        });
+      }
+
+      if (manifestPath) {
+        await writeManifest(manifestPath, manifest);
+        result.manifest = manifestPath;
+      }
+      return { data: result };
+    } catch (error) {
+      if (signal?.aborted) return { error: ZapdosError.aborted(signal.reason) };
+      return { error: ZapdosError.from(error, { message: "Failed to sync directory" }) };
     }
   }
+
+  /**
+   * Merge `patch` into the metadata of an object, e.g. to change
+   * user-defined fields after upload. Does not start an indexing job.
+   */
+  async updateMetadata(
+    objectId: string,
+    patch: Partial<M>,
+    options?: { signal?: AbortSignal }
+  ): Promise<Maybe<{ object_id: string }>> {
+    try {
+      const events = await updateObjectMetadata({
+        transport: this.retryTransport,
+        url: `${this.baseUrl}/v1/storage/${objectId}`,
+        headers: { ...this.getAuthHeader(), "Content-Type": "application/json" },
+        metadata: patch,
+        createIndexingJob: false,
+        signal: options?.signal,
+      });
+      for await (const msg of events ?? []) {
+        if (msg.error) {
+          throw new ZapdosError("server", msg.error.message);
+        }
+        if (msg.data.type === "metadata_updated") {
+          return { data: { object_id: msg.data.object_id } };
+        }
+      }
+      throw new ZapdosError("invalid_response", "Metadata update finished without confirmation");
+    } catch (error: any) {
+      return { error: ZapdosError.from(error, { message: "Failed to update metadata" }) };
+    }
+  }
+  /**
+   * Start indexing jobs for objects uploaded with `index: false`.
+   * Resolves with the job ids once every job has started; `job` callbacks
+   * keep firing as the jobs progress, as they do for uploads.
+   */
+  async startIndexing(
+    objectIds: string[],
+    options?: { job?: JobCallbacks; signal?: AbortSignal }
+  ): Promise<Maybe<{ object_id: string; job_id: string }[]>> {
+    const ids = [...new Set(objectIds)];
+    if (ids.length === 0) {
+      return { error: new ZapdosError("validation", "No IDs provided") };
+    }
+    try {
+      // Not retried: a repeated request could start the jobs twice
+      const response = await this.transport.request<ReadableStream<Uint8Array> | null>({
+        method: "POST",
+        url: `${this.baseUrl}/v1/jobs/indexing`,
+        headers: { ...this.getAuthHeader(), "Content-Type": "application/json" },
+        body: { object_ids: ids },
+        responseType: "stream",
+        signal: options?.signal,
+      });
+      if (!response.data) {
+        throw new ZapdosError("invalid_response", "No indexing events returned from server");
+      }
+      const events = parseNDJSONStream(response.data) as AsyncGenerator<UpdateMetadataReturnedJSON, void, unknown>;
+
+      const jobs = new Map<string, string>();
+      return await new Promise((resolve) => {
+        const onIndexingStarted: JobCallbacks["onIndexingStarted"] = (props) => {
+          jobs.set(props.object_id, props.job_id);
+          options?.job?.onIndexingStarted?.(props);
+          if (jobs.size === ids.length) {
+            resolve({ data: ids.map((object_id) => ({ object_id, job_id: jobs.get(object_id)! })) });
+          }
+        };
+        handleStream(events, { job: { ...options?.job, onIndexingStarted } }).then(
+          () => {
+            const missing = ids.filter((id) => !jobs.has(id));
+            resolve({
+              error: new ZapdosError("invalid_response", `Indexing was not started for ${missing.join(", ")}`, {
+                details: { jobs: Object.fromEntries(jobs), missing },
+              }),
+            });
+          },
+          (error) => resolve({ error: ZapdosError.from(error, { message: "Failed to start indexing" }) }),
+        );
+      });
+    } catch (error: any) {
+      return { error: ZapdosError.from(error, { message: "Failed to start indexing" }) };
+    }
+  }
+  /**
+   * Get a single job by id.
+   */
+  async getJob(jobId: string, options?: { signal?: AbortSignal }): Promise<Maybe<JobItem>> {
+    return this.jobs().where("id", "=", jobId).abortSignal(options?.signal).single();
+  }
+
+  /**
+   * Wait until a job reaches a final status (`completed`, `failed` or
+   * `cancelled`) and return it. Job events on the WebSocket trigger an
+   * immediate check; polling covers the times the socket is unavailable.
+   * Concurrent waits share one WebSocket.
+   */
+  async waitForJob(jobId: string, options?: WaitForJobOptions): Promise<Maybe<JobItem>> {
+    const pollInterval = options?.pollInterval ?? 2000;
+    const deadline = options?.timeout !== undefined ? new AbortController() : undefined;
+    const timer = deadline && setTimeout(() => deadline.abort(), options!.timeout);
+    const signal = combineSignals(options?.signal, deadline?.signal);
+
+    let wake: (() => void) | undefined;
+    this.jobEvents ??= { subscription: this.listen(), waiting: 0 };
+    const jobEvents = this.jobEvents;
+    jobEvents.waiting++;
+    const unsubscribe = jobEvents.subscription.subscribe({ jobId }, () => wake?.());
+
+    try {
+      while (true) {
+        const result = await this.getJob(jobId, { signal });
+        if (result.error) throw result.error;
+        if (FINAL_JOB_STATUSES.includes(result.data.status)) return result;
+
+        await new Promise<void>((resolve) => {
+          const done = () => {
+            clearTimeout(pollTimer);
+            signal?.removeEventListener("abort", done);
+            wake = undefined;
+            resolve();
+          };
+          const pollTimer = setTimeout(done, pollInterval);
+          signal?.addEventListener("abort", done, { once: true });
+          wake = done;
+        });
+        if (signal?.aborted) throw ZapdosError.aborted(signal.reason);
+      }
+    } catch (error) {
+      if (deadline?.signal.aborted && !options?.signal?.aborted) {
+        return { error: new ZapdosError("timeout", `Job ${jobId} did not finish within ${options!.timeout} ms`, { cause: error }) };
+      }
+      return { error: ZapdosError.from(error, { message: "Failed to wait for job" }) };
+    } finally {
+      clearTimeout(timer);
+      unsubscribe();
+      if (--jobEvents.waiting === 0) {
+        jobEvents.subscription.close();
+        if (this.jobEvents === jobEvents) this.jobEvents = undefined;
+      }
+    }
+  }
+
+  /**
+   * Cancel a pending or running job. Resolves with the updated job.
+   */
+  async cancelJob(jobId: string, options?: { signal?: AbortSignal }): Promise<Maybe<JobItem>> {
+    try {
+      const response = await this.retryTransport.request({
+        method: "POST",
+        url: `${this.baseUrl}/v1/jobs/${jobId}/cancel`,
+        headers: this.getAuthHeader(),
+        signal: options?.signal,
+      });
+      return { data: response.data.data };
+    } catch (error: any) {
+      return { error: ZapdosError.from(error, { message: "Failed to cancel job" }) };
+    }
+  }
+
+  /**
+   * Run a failed or cancelled job again. Resolves with the new job.
+   */
+  async retryJob(jobId: string, options?: { signal?: AbortSignal }): Promise<Maybe<JobItem>> {
+    try {
+      // Not retried: a repeated request could start the job twice
+      const response = await this.transport.request({
+        method: "POST",
+        url: `${this.baseUrl}/v1/jobs/${jobId}/retry`,
+        headers: this.getAuthHeader(),
+        signal: options?.signal,
+      });
+      return { data: response.data.data };
+    } catch (error: any) {
+      return { error: ZapdosError.from(error, { message: "Failed to retry job" }) };
+    }
+  }
+
+
+
+}
+
+/**
+ * A file of a backend upload, whatever it was given as.
+ */
+type FileSource = Pick<UploadItem, "name" | "size" | "data" | "reopen" | "slice" | "resumeState"> & {
+  stateFile?: string;
+};
+
+function fromUploadSource({ name, data, size }: UploadSource): FileSource {
+  if (!name) {
+    throw new ZapdosError("validation", "Uploads from memory or streams need a name");
+  }
+  if (data instanceof Uint8Array) {
+    // A Blob can be sent again on retry and sliced into parts
+    const blob = new Blob([data]);
+    return { name, size: blob.size, data: blob };
+  }
+  if (data instanceof Blob) {
+    return { name, size: data.size, data };
+  }
+  return { name, size, data };
+}
+
+/**
+ * Read a persisted chunked upload state, ignoring it if it belongs to a
+ * different version of the file.
+ */
+function readUploadState(stateFile: string, name: string, size: number): MultipartUploadState | undefined {
+  try {
+    const state: MultipartUploadState = JSON.parse(fs.readFileSync(stateFile, "utf8"));
+    if (state.file_name === name && state.size === size) return state;
+  } catch {
+    // No state, or unreadable: start a fresh upload
+  }
+  return undefined;
 }
@@ -1,16 +1,39 @@
 import { Logger } from "./logger";
-import type { AxiosUploadItem, BaseClientOptions, Environment, UpdateMetadataReturnedJSON, UploadCallbacksWithFileIndex, UploadItem } from "./types";
-import { batchUpload, parseNDJSONStream, parseSignedUrl } from "./utils";
+import { createRetryTransport, resolveRetryPolicy, type RetryPolicy } from "./retry";
+import { createFetchTransport, type Transport } from "./transport";
+import { ZapdosError } from "./errors";
+import { DEFAULT_PART_SIZE } from "./multipart";
+import { UploadQueue } from "./upload-queue";
+import { detectContentType, kindFromContentType, readHead, SNIFF_BYTES } from "./content-type";
+import type { ChunkedUploadConfig } from "./utils";
+import { UnselectedQueryBuilder } from "./resource-request-builder";
+import { SignedUrlCache } from "./url-cache";
+import type { ChunkedUploadOptions, SignedUploadItem, UploadOptions, BaseClientOptions, Environment, GroupedSearchResults, HydratedSearchResultItem, Maybe, Range, ResourceMap, SearchHydration, SearchHydrationFields, SearchOptions, SearchResultItem, SearchResults, Transcription, UpdateMetadataReturnedJSON, VideoObject, UploadCallbacksWithFileIndex, UploadItem } from "./types";
+import { batchUpload, chunk, parseNDJSONStream, parseSignedUrl } from "./utils";
 
 /**
  * Abstract base class for Zapdos clients.
- * Enforces implementation of getAuthHeader for authentication.
+ * Enforces implementation of resolveAuthHeader for authentication.
+ *
+ * `M` types the user-defined metadata fields of stored objects.
  */
-export abstract class ZapdosBaseClient {
+export abstract class ZapdosBaseClient<M extends object = {}> {
   public abstract get environment(): Environment;
   public readonly baseUrl: string;
   public readonly wsBaseUrl: string;
   public readonly logger: Logger;
+  public readonly transport: Transport;
+  public readonly retryPolicy: RetryPolicy;
+  /**
+   * `transport` with the retry policy applied. Used for requests whose body
+   * can safely be sent again; uploads and downloads retry per file instead.
+   */
+  protected readonly retryTransport: Transport;
+  /**
+   * Signed download URLs handed out so far, reused by `getDownloadUrls()`
+   * until shortly before they expire. Undefined with `urlCache: false`.
+   */
+  public readonly urlCache?: SignedUrlCache;
 
   constructor(opts?: BaseClientOptions) {
     this.baseUrl =
@@ -23,6 +46,201 @@ export abstract class ZapdosBaseClient {
       throw new Error("baseUrl must start with https:// or http://");
     }
     this.logger = new Logger(opts?.verbose);
+    this.transport = opts?.transport ?? createFetchTransport();
+    this.retryPolicy = resolveRetryPolicy(opts?.retry);
+    this.retryTransport = createRetryTransport(this.transport, this.retryPolicy);
+    if (opts?.urlCache !== false) {
+      this.urlCache = new SignedUrlCache((ids) => this.fetchDownloadUrls(ids), opts?.urlCache);
+    }
+  }
+
+  /**
+   * Headers authenticating a request: the API key on the backend, a scoped
+   * token in the browser.
+   */
+  protected abstract resolveAuthHeader(): Promise<Record<string, string>>;
+
+  from<K extends keyof ResourceMap>(resource: K): UnselectedQueryBuilder<ResourceMap<M>[K]>;
+  from<T>(resource: string): UnselectedQueryBuilder<T>;
+  from<T>(resource: string): UnselectedQueryBuilder<T> {
+    return new UnselectedQueryBuilder<T>(this.baseUrl, () => this.resolveAuthHeader(), resource, this.retryTransport);
+  }
+
+  /**
+   * Search by text using embeddings. Example:
+   *   client.search("cats playing piano", { limit: 5, object_ids: ["id1", "id2"] })
+   * Pages are fetched by passing the previous page's `next_cursor` as `cursor`.
+   * With `groupBy: "video"` the results are videos, each with its ranked matches.
+   * @param text The search query
+   * @param options Optional search options (e.g., { limit, object_ids, minScore, start_ms })
+   * @returns Promise with result type: { data, error? } | { error, data? }
+   */
+  search<H extends SearchHydration>(
+    text: string,
+    options: SearchOptions & { groupBy: "video"; hydrate: H[] },
+  ): Promise<Maybe<GroupedSearchResults<HydratedSearchResultItem<M, H>>>>;
+  search(text: string, options: SearchOptions & { groupBy: "video" }): Promise<Maybe<GroupedSearchResults>>;
+  search<H extends SearchHydration>(
+    text: string,
+    options: SearchOptions & { groupBy?: undefined; hydrate: H[] },
+  ): Promise<Maybe<SearchResults<HydratedSearchResultItem<M, H>>>>;
+  search(text: string, options?: SearchOptions & { groupBy?: undefined }): Promise<Maybe<SearchResults>>;
+  search(text: string, options?: SearchOptions): Promise<Maybe<SearchResults<any> | GroupedSearchResults<any>>>;
+  async search(text: string, options?: SearchOptions): Promise<Maybe<SearchResults<any> | GroupedSearchResults<any>>> {
+    text = text.trim();
+    if (!text) {
+      return { error: new ZapdosError("validation", "Search text is empty") };
+    }
+    const url = `${this.baseUrl}/v1/search`;
+    const body: any = {
+      text,
+    };
+    if (options?.limit != null) body.limit = options.limit;
+    if (options?.object_ids && Array.isArray(options.object_ids) && options.object_ids.length > 0) {
+      body.object_ids = options.object_ids;
+    }
+    if (options?.video_id) {
+      body.video_id = options.video_id;
+    }
+    if (options?.cursor) body.cursor = options.cursor;
+    if (options?.minScore != null) body.min_score = options.minScore;
+    if (options?.types?.length) body.types = options.types;
+    if (options?.start_ms) body.start_ms = options.start_ms;
+    if (options?.end_ms) body.end_ms = options.end_ms;
+    if (options?.uploadedAt) body.uploaded_at = isoRange(options.uploadedAt);
+    if (options?.groupBy) body.group_by = options.groupBy;
+    try {
+      const headers = {
+        ...await this.resolveAuthHeader(),
+        "Content-Type": "application/json",
+      };
+      const response = await this.retryTransport.request({ method: "POST", url, body, headers, signal: options?.signal });
+      const data: SearchResults | GroupedSearchResults = response.data.data;
+      if (!options?.hydrate?.length) return { data };
+      return await this.hydrateSearchResults(data, options.hydrate, options.signal);
+    } catch (error: any) {
+      return { error: ZapdosError.from(error, { message: "Search failed" }) };
+    }
+  }
+
+  /**
+   * Add the requested fields to every search result. Videos are fetched with
+   * one query and all signed URLs with one request per batch of ids.
+   */
+  private async hydrateSearchResults(
+    data: SearchResults | GroupedSearchResults,
+    fields: SearchHydration[],
+    signal?: AbortSignal,
+  ): Promise<Maybe<SearchResults<any> | GroupedSearchResults<any>>> {
+    const items = "videos" in data ? data.videos.flatMap((group) => group.items) : data.items;
+    const videoId = (item: SearchResultItem) => (item.type === "image" ? undefined : item.metadata.object_id);
+    const thumbnailId = (item: SearchResultItem) =>
+      item.type === "scene" ? item.metadata.scene_image_object_id
+        : item.type === "image" ? item.metadata.object_id
+          : undefined;
+
+    const videoIds = new Set<string>();
+    const urlIds = new Set<string>();
+    for (const item of items) {
+      const video = videoId(item);
+      const thumbnail = thumbnailId(item);
+      if (video && fields.includes("video")) videoIds.add(video);
+      if (video && fields.includes("videoUrl")) urlIds.add(video);
+      if (thumbnail && fields.includes("thumbnailUrl")) urlIds.add(thumbnail);
+    }
+
+    const videos = new Map<string, VideoObject<M>>();
+    const urls: Record<string, string> = {};
+    let urls_expires_at: string | undefined;
+    const [videoBatches, urlBatches] = [[...videoIds], [...urlIds]].map((ids) => chunk(ids, HYDRATE_BATCH_SIZE));
+    const results = await Promise.all([
+      ...videoBatches.map(async (ids) => {
+        const result = await this.from("object_storage").select().where("id", "in", ids).limit(ids.length).abortSignal(signal);
+        result.data?.forEach((row) => videos.set(row.id, row as VideoObject<M>));
+        return result;
+      }),
+      ...urlBatches.map(async (ids) => {
+        const result = await this.getDownloadUrls(ids, { signal });
+        if (result.data) {
+          Object.assign(urls, result.data.urls);
+          // The earliest expiry bounds all URLs
+          if (!urls_expires_at || result.data.expires_at < urls_expires_at) urls_expires_at = result.data.expires_at;
+        }
+        return result;
+      }),
+    ]);
+    const failed = results.find((result) => result.error);
+    if (failed?.error) {
+      return { error: ZapdosError.from(failed.error, { message: "Failed to hydrate search results" }) };
+    }
+
+    const hydrate = (item: SearchResultItem) => {
+      const video = videoId(item);
+      const thumbnail = thumbnailId(item);
+      const fieldValues: Partial<SearchHydrationFields<M>> = {};
+      if (fields.includes("video")) fieldValues.video = (video && videos.get(video)) || null;
+      if (fields.includes("thumbnailUrl")) fieldValues.thumbnailUrl = (thumbnail && urls[thumbnail]) || null;
+      if (fields.includes("videoUrl")) fieldValues.videoUrl = (video && urls[video]) || null;
+      return { ...item, ...fieldValues };
+    };
+    const expiry = urls_expires_at ? { urls_expires_at } : {};
+    if ("videos" in data) {
+      return { data: { ...data, ...expiry, videos: data.videos.map((group) => ({ ...group, items: group.items.map(hydrate) })) } };
+    }
+    return { data: { ...data, ...expiry, items: data.items.map(hydrate) } };
+  }
+
+  /**
+   * Get the transcription of a video, to be exported with `toSRT()`,
+   * `toWebVTT()`, `toPlainText()` or `toParagraphs()`. Errors with
+   * `not_found` if the video doesn't exist or hasn't been transcribed yet.
+   */
+  async getTranscript(videoId: string, options?: { signal?: AbortSignal }): Promise<Maybe<Transcription>> {
+    const result = await this.from<VideoObject>("object_storage")
+      .select()
+      .where("id", "=", videoId)
+      .abortSignal(options?.signal)
+      .single();
+    if (result.error?.code === "not_found") {
+      return { error: new ZapdosError("not_found", `Video ${videoId} not found`) };
+    }
+    if (result.error) return { error: result.error };
+    const transcription = result.data.content?.transcription;
+    if (!transcription) {
+      return { error: new ZapdosError("not_found", `Video ${videoId} has no transcript`) };
+    }
+    return { data: transcription };
+  }
+
+  /**
+   * Get signed download URLs for object IDs.
+   * @param ids Array of object IDs
+   * @returns Promise with URLs and expiry, or error
+   */
+  async getDownloadUrls(
+    ids: string[],
+    options?: { signal?: AbortSignal }
+  ): Promise<Maybe<{ urls: Record<string, string>; expires_at: string }>> {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return { error: new ZapdosError("validation", "No IDs provided") };
+    }
+    if (this.urlCache) return this.urlCache.getMany(ids, options);
+    return this.fetchDownloadUrls(ids, options);
+  }
+
+  private async fetchDownloadUrls(
+    ids: string[],
+    options?: { signal?: AbortSignal }
+  ): Promise<Maybe<{ urls: Record<string, string>; expires_at: string }>> {
+    const url = `${this.baseUrl}/v1/signed-url/get`;
+    const params = { ids: ids.join(",") };
+    try {
+      const headers = await this.resolveAuthHeader();
+      const response = await this.retryTransport.request({ method: "GET", url, params, headers, signal: options?.signal });
+      return { data: response.data.data };
+    } catch (error: any) {
+      return { error: ZapdosError.from(error, { message: "Failed to get download URLs" }) };
+    }
   }
 
   /**
@@ -31,33 +249,97 @@ export abstract class ZapdosBaseClient {
   public async uploadWithSignedUrls(
     uploadItems: UploadItem[],
     on?: UploadCallbacksWithFileIndex,
+    options?: Omit<UploadOptions<M>, "fileSignals" | "fileTypes">,
   ) {
-    const parsedUrls = uploadItems.map((item) => parseSignedUrl(item.url));
+    const parsedUrls = uploadItems.map((item) => {
+      // A resumed upload already knows its object and token
+      if (item.resumeState) {
+        const { object_id, token } = item.resumeState;
+        return { object_id, token, cleanedUrl: "" };
+      }
+      if (!item.url) {
+        throw new ZapdosError("validation", `Missing signed URL for ${item.name}`);
+      }
+      return parseSignedUrl(item.url);
+    });
 
-    const items: AxiosUploadItem[] = parsedUrls.map((parsedUrl, index) => {
+    const items: SignedUploadItem[] = await Promise.all(parsedUrls.map(async (parsedUrl, index) => {
       const uploadItem = uploadItems[index];
+      const content_type = uploadItem.content_type || await detectUploadType(uploadItem);
       return {
         index,
         signedUrl: parsedUrl.cleanedUrl,
         data: uploadItem.data,
+        reopen: uploadItem.reopen,
+        slice: uploadItem.slice,
+        resumeState: uploadItem.resumeState,
+        onStateChange: uploadItem.onStateChange,
+        signal: uploadItem.signal,
         token: parsedUrl.token,
         object_id: parsedUrl.object_id,
         metadata: {
+          ...options?.metadata,
+          ...options?.fileMetadata?.[index],
+          ...uploadItem.metadata,
           file_name: uploadItem.name,
           size: uploadItem.size,
-          content_type: uploadItem.content_type || "application/octet-stream",
-          kind: "video",
+          content_type,
+          kind: uploadItem.kind || kindFromContentType(content_type),
         },
       }
-    });
+    }));
 
     return batchUpload({
       baseUrl: this.baseUrl,
+      transport: this.transport,
+      retry: this.retryPolicy,
       items,
       callbacks: on,
+      signal: options?.signal,
+      chunked: this.resolveChunkedOptions(options?.chunked),
+      queue: options?.queue ?? new UploadQueue({ concurrency: options?.concurrency }),
+      onBatchProgress: options?.onBatchProgress,
+      index: options?.index,
     })
   }
 
+  /**
+   * Resolve the `chunked` upload option against the client's defaults.
+   * Resumed uploads are always chunked, so this never returns undefined.
+   */
+  protected resolveChunkedOptions(chunked?: boolean | ChunkedUploadOptions): ChunkedUploadConfig {
+    const options = typeof chunked === "object" ? chunked : {};
+    const partSize = options.partSize ?? DEFAULT_PART_SIZE;
+    return {
+      enabled: chunked !== undefined && chunked !== false,
+      partSize,
+      threshold: options.threshold ?? partSize,
+      retry: options.retry === undefined ? this.retryPolicy : resolveRetryPolicy(options.retry),
+    };
+  }
+
+
+
+}
+
+/**
+ * Sniff an upload's content type from its leading bytes, falling back to the
+ * type declared by a File and to its name. One-shot streams are left alone.
+ */
+async function detectUploadType(item: UploadItem) {
+  const isBlob = typeof Blob !== "undefined" && item.data instanceof Blob;
+  const source = isBlob ? (item.data as Blob) : item.slice?.(0, SNIFF_BYTES);
+  const head = await readHead(source);
+  return detectContentType(item.name, head, isBlob ? (item.data as Blob).type : undefined);
+}
 
+/** Ids per follow-up request when hydrating search results. */
+const HYDRATE_BATCH_SIZE = 100;
 
+function isoRange(range: Range<string | Date>): Range<string> {
+  const iso = (value: string | Date) => (value instanceof Date ? value.toISOString() : value);
+  return {
+    ...(range.gte !== undefined && { gte: iso(range.gte) }),
+    ...(range.lte !== undefined && { lte: iso(range.lte) }),
+  };
 }
@@ -1,28 +1,70 @@
 import { ZapdosBaseClient } from "./base-client";
+import { ZapdosError } from "./errors";
+import { ZapdosSubscription, type BrowserListenOptions } from "./subscription";
+import { TokenManager } from "./token";
 
 import {
   BrowserClientOptions,
   Environment,
+  MultipartUploadState,
   UploadCallbacksWithFileIndex,
-  UploadItem
+  UploadItem,
+  UploadOptions
 } from "./types";
 
-export class BrowserZapdosClient extends ZapdosBaseClient {
+export class BrowserZapdosClient<M extends object = {}> extends ZapdosBaseClient<M> {
   public get environment(): Environment {
     return "browser";
   }
 
+  private readonly tokens: TokenManager;
+
   constructor(options?: BrowserClientOptions) {
     super(options);
+    this.tokens = new TokenManager(options?.token, options?.refreshToken);
 
     this.logger.log("Zapdos client created in browser");
   }
 
+  protected async resolveAuthHeader() {
+    return { Authorization: `Bearer ${await this.tokens.get()}` };
+  }
+
+  /**
+   * Subscribe to Zapdos events with the native `WebSocket`, authenticated
+   * with a scoped token (the client's own by default). Same event API as the
+   * backend client's `listen()`.
+   */
+  public listen(opts?: BrowserListenOptions) {
+    const { token = () => this.tokens.get(), tokenIn = "url", WebSocket: Socket = globalThis.WebSocket, ...options } = opts ?? {};
+    if (!Socket) {
+      throw new ZapdosError("validation", "No WebSocket implementation available");
+    }
+    if (!opts?.token && !this.tokens.configured) {
+      throw new ZapdosError("validation", "listen() needs a token: pass `token` here or to createBrowserClient()");
+    }
+
+    const connect = async () => {
+      const value = typeof token === "function" ? await token() : token;
+      if (tokenIn === "message") {
+        const socket = new Socket(this.wsBaseUrl);
+        // Registered before the subscription's own handler, so it runs first
+        socket.addEventListener("open", () => socket.send(JSON.stringify({ type: "auth", token: value })));
+        return socket;
+      }
+      const url = new URL(this.wsBaseUrl);
+      url.searchParams.set("token", value);
+      return new Socket(url.toString());
+    };
+    return new ZapdosSubscription(connect, options, this.logger);
+  }
+
 
   public upload(
     signedUrls: string | string[],
     files: File | File[],
-    on?: UploadCallbacksWithFileIndex
+    on?: UploadCallbacksWithFileIndex,
+    options?: UploadOptions<M>
   ) {
     const filesArray = Array.isArray(files) ? files : [files];
     const signedUrlsArray = Array.isArray(signedUrls) ? signedUrls : [signedUrls];
@@ -31,12 +73,44 @@ export class BrowserZapdosClient extends ZapdosBaseClient {
       return {
         name: file.name,
         size: file.size,
-        content_type: file.type || "application/octet-stream",
+        content_type: options?.fileTypes?.[index]?.content_type,
+        kind: options?.fileTypes?.[index]?.kind,
         data: file,
         url: signedUrlsArray[index],
+        signal: options?.fileSignals?.[index],
+      }
+    });
+
+    const { fileSignals: _, fileTypes: __, ...uploadOptions } = options ?? {};
+    return this.uploadWithSignedUrls(items, on, uploadOptions);
+  }
+
+  /**
+   * Resume interrupted chunked uploads from the states reported by
+   * `onUploadStateChange`. Only the parts the server is missing are sent.
+   */
+  public resumeUpload(
+    files: File | File[],
+    states: MultipartUploadState | MultipartUploadState[],
+    on?: UploadCallbacksWithFileIndex,
+    options?: Omit<UploadOptions<M>, "chunked">
+  ) {
+    const filesArray = Array.isArray(files) ? files : [files];
+    const statesArray = Array.isArray(states) ? states : [states];
+
+    const items: UploadItem[] = filesArray.map((file, index) => {
+      return {
+        name: file.name,
+        size: file.size,
+        content_type: options?.fileTypes?.[index]?.content_type,
+        kind: options?.fileTypes?.[index]?.kind,
+        data: file,
+        resumeState: statesArray[index],
+        signal: options?.fileSignals?.[index],
       }
     });
 
-    return this.uploadWithSignedUrls(items, on);
+    const { fileSignals: _, fileTypes: __, ...uploadOptions } = options ?? {};
+    return this.uploadWithSignedUrls(items, on, { ...uploadOptions, chunked: true });
   }
 }
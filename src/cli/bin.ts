@@ -0,0 +1,15 @@
+/**
+ * Entry point of the `zapdos` bin.
+ */
+import { run } from "./index";
+
+const controller = new AbortController();
+process.once("SIGINT", () => {
+  controller.abort();
+  // A second Ctrl-C doesn't wait for transfers to wind down
+  process.once("SIGINT", () => process.exit(130));
+});
+
+run(process.argv.slice(2), { signal: controller.signal }).then((code) => {
+  process.exitCode = code;
+});
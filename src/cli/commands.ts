@@ -0,0 +1,428 @@
+/**
+ * The subcommands of `zapdos`. Each prints its result as a table, or as JSON
+ * with `--json`, and resolves to the exit code.
+ */
+import fs from "fs";
+import path from "path";
+import type util from "util";
+import type { BackendZapdosClient } from "../backend-client";
+import { ZapdosError } from "../errors";
+import type {
+  ComparisonOperator,
+  ContainsOperator,
+  JsonValue,
+  ListOperator,
+  NullOperator,
+  QueryBuilder,
+  WhereOperator,
+  WhereScalar,
+} from "../resource-request-builder";
+import type { ZapdosEventType } from "../subscription";
+import type { JobItem, JobStatus, SearchResultItem, SearchResultType } from "../types";
+import { formatBytes, formatDuration, formatTable, ProgressBars, type OutputStream } from "./output";
+
+/**
+ * Exit codes, for CI scripts to branch on.
+ *
+ * - `ok`: everything succeeded
+ * - `failed`: the request failed, or some files or jobs did
+ * - `usage`: invalid arguments or configuration, or a request rejected as invalid
+ * - `auth`: no API key, or the key was refused
+ * - `interrupted`: stopped with Ctrl-C
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  auth: 3,
+  interrupted: 130,
+} as const;
+
+export type CommandContext = {
+  client: BackendZapdosClient;
+  stdout: OutputStream;
+  stderr: OutputStream;
+  json: boolean;
+  signal: AbortSignal;
+};
+
+type ParsedArgs = {
+  values: Record<string, string | boolean | (string | boolean)[] | undefined>;
+  positionals: string[];
+};
+
+export type Command = {
+  usage: string;
+  description: string;
+  options: NonNullable<util.ParseArgsConfig["options"]>;
+  run(ctx: CommandContext, args: ParsedArgs): Promise<number>;
+};
+
+const JOB_STATUSES: JobStatus[] = ["pending", "running", "completed", "failed", "cancelled"];
+const RESULT_TYPES: SearchResultType[] = ["scene", "transcript", "image"];
+const EVENT_TYPES: ZapdosEventType[] = [
+  "metadata_updated",
+  "indexing_started",
+  "indexing_completed",
+  "indexing_failed",
+  "transcription",
+];
+
+// Longest first, so that e.g. `<=` isn't read as `<`
+const WHERE_OPERATORS: WhereOperator[] = ["is not null", "is null", "not in", "in", "@>", "!=", "<=", ">=", "=", "<", ">", "~"];
+
+function usageError(message: string) {
+  return new ZapdosError("validation", message);
+}
+
+function print(ctx: CommandContext, data: unknown, rows: Record<string, unknown>[], columns?: string[]) {
+  if (ctx.json) {
+    ctx.stdout.write(JSON.stringify(data, null, 2) + "\n");
+  } else if (rows.length === 0) {
+    ctx.stderr.write("No results.\n");
+  } else {
+    ctx.stdout.write(formatTable(rows, columns));
+  }
+}
+
+function errorJson(error: ZapdosError) {
+  return { code: error.code, message: error.message };
+}
+
+function integer(value: unknown, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) throw usageError(`${flag} expects a whole number, got "${value}"`);
+  return number;
+}
+
+function oneOf<T extends string>(values: string[] | undefined, allowed: T[], flag: string): T[] | undefined {
+  const invalid = values?.find((value) => !allowed.includes(value as T));
+  if (invalid !== undefined) throw usageError(`${flag} must be one of ${allowed.join(", ")}, got "${invalid}"`);
+  return values as T[] | undefined;
+}
+
+function list(values: unknown): string[] | undefined {
+  if (values === undefined) return undefined;
+  return (values as string[]).flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean);
+}
+
+/** The arguments of one of the `.where()` overloads. */
+export type WhereArgs =
+  | [column: string, operator: NullOperator]
+  | [column: string, operator: ListOperator, value: WhereScalar[]]
+  | [column: string, operator: ContainsOperator, value: JsonValue]
+  | [column: string, operator: ComparisonOperator, value: WhereScalar];
+
+/**
+ * Parse a `--where` condition, e.g. `status = failed`, `metadata->>'size' > 1024`,
+ * `id in a,b` or `metadata->'parents' @> ["video-1"]`.
+ */
+export function parseWhere(condition: string): WhereArgs {
+  const match = condition.trim().match(/^(\S+)\s+(.+)$/);
+  const rest = match?.[2] ?? "";
+  const operator = WHERE_OPERATORS.find((candidate) =>
+    rest.toLowerCase() === candidate || rest.toLowerCase().startsWith(`${candidate} `));
+  if (!match || !operator) {
+    throw usageError(`Invalid --where "${condition}": expected "<column> <operator> <value>", with one of ${WHERE_OPERATORS.join(", ")}`);
+  }
+  const column = match[1];
+  const raw = rest.slice(operator.length).trim();
+  if (operator === "is null" || operator === "is not null") return [column, operator];
+  if (!raw) throw usageError(`Invalid --where "${condition}": missing value`);
+  if (operator === "in" || operator === "not in") {
+    const values = raw.startsWith("[") ? parseJson(raw, "--where") : raw.split(",").map((value) => scalar(value.trim()));
+    if (!Array.isArray(values)) throw usageError(`Invalid --where "${condition}": "${operator}" expects a list`);
+    return [column, operator, values];
+  }
+  if (operator === "@>") {
+    try {
+      return [column, operator, JSON.parse(raw)];
+    } catch {
+      return [column, operator, raw];
+    }
+  }
+  return [column, operator, scalar(raw)];
+}
+
+/** Add a parsed condition, calling the `.where()` overload its operator takes. */
+function where(builder: QueryBuilder<Record<string, unknown>>, args: WhereArgs) {
+  if (args.length === 2) return builder.where(...args);
+  const [column, operator, value] = args;
+  switch (operator) {
+    case "in":
+    case "not in":
+      return builder.where(column, operator, value);
+    case "@>":
+      return builder.where(column, operator, value);
+    default:
+      return builder.where(column, operator, value);
+  }
+}
+
+/** Numbers, booleans, `null` and quoted strings as JSON; anything else as text. */
+function scalar(raw: string): WhereScalar {
+  try {
+    const value = JSON.parse(raw);
+    if (value === null || ["string", "number", "boolean"].includes(typeof value)) return value;
+  } catch {
+    // Plain text
+  }
+  return raw;
+}
+
+function parseJson(raw: string, flag: string) {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw usageError(`${flag} expects JSON, got ${raw}`);
+  }
+}
+
+function jobRow(job: JobItem) {
+  return { id: job.id, status: job.status, type: job.content?.type, object_id: job.content?.object_id, created_at: job.created_at };
+}
+
+function timeRange(item: SearchResultItem) {
+  if (item.type === "image") return "";
+  return `${formatDuration(item.metadata.start_ms)}-${formatDuration(item.metadata.end_ms)}`;
+}
+
+const upload: Command = {
+  usage: "upload <paths...> [--concurrency <n>] [--chunked] [--metadata <json>] [--defer-indexing]",
+  description: "Upload files, with progress bars",
+  options: {
+    concurrency: { type: "string" },
+    chunked: { type: "boolean" },
+    metadata: { type: "string" },
+    "defer-indexing": { type: "boolean" },
+  },
+  async run(ctx, { values, positionals: files }) {
+    if (files.length === 0) throw usageError("upload needs at least one path");
+    const progress = new ProgressBars(ctx.stderr);
+    const results = await ctx.client.uploadBatch(
+      files,
+      {
+        onProgress: ({ file_index, loaded, total }) => progress.update(file_index, path.basename(files[file_index]), loaded, total),
+        onFailed: ({ file_index }) => progress.remove(file_index),
+      },
+      {
+        concurrency: integer(values.concurrency, "--concurrency"),
+        chunked: Boolean(values.chunked),
+        metadata: values.metadata !== undefined ? parseJson(values.metadata as string, "--metadata") : undefined,
+        index: !values["defer-indexing"],
+        signal: ctx.signal,
+        onBatchProgress: ({ loaded, total, files: counts, eta_ms }) =>
+          progress.setTotal(`${counts.completed}/${counts.total} files`, loaded, total, eta_ms !== undefined ? `ETA ${formatDuration(eta_ms)}` : undefined),
+      },
+    );
+    progress.done();
+    if (!Array.isArray(results)) throw results.error;
+    if (ctx.signal.aborted) throw ZapdosError.aborted(ctx.signal.reason);
+
+    const outcomes = results.map((result, i) => result.error
+      ? { file: files[i], error: errorJson(result.error.error) }
+      : { file: files[i], object_id: result.data.object_id });
+    print(ctx, outcomes, outcomes.map((outcome) => ({
+      file: outcome.file,
+      object_id: outcome.object_id,
+      error: outcome.error?.message,
+    })), outcomes.some((outcome) => outcome.error) ? ["file", "object_id", "error"] : ["file", "object_id"]);
+    return outcomes.some((outcome) => outcome.error) ? EXIT_CODES.failed : EXIT_CODES.ok;
+  },
+};
+
+const download: Command = {
+  usage: "download <ids...> [-o <dir>] [--concurrency <n>]",
+  description: "Download objects into a directory, with progress bars",
+  options: {
+    output: { type: "string", short: "o" },
+    concurrency: { type: "string" },
+  },
+  async run(ctx, { values, positionals: ids }) {
+    if (ids.length === 0) throw usageError("download needs at least one object ID");
+    const dir = (values.output as string | undefined) ?? ".";
+    await fs.promises.mkdir(dir, { recursive: true });
+    const progress = new ProgressBars(ctx.stderr);
+    const result = await ctx.client.downloadBatch(ids, dir, {
+      concurrency: integer(values.concurrency, "--concurrency"),
+      signal: ctx.signal,
+      onProgress: ({ file_index, id, loaded, total }) => progress.update(file_index, id, loaded, total),
+      onBatchProgress: ({ loaded, total, files, eta_ms }) =>
+        progress.setTotal(`${files.completed}/${files.total} files`, loaded, total, eta_ms !== undefined ? `ETA ${formatDuration(eta_ms)}` : undefined),
+    });
+    progress.done();
+    if (result.error) throw result.error;
+
+    const outcomes = result.data.results.map((download) => download.error
+      ? { id: download.id, file: download.file, error: errorJson(download.error) }
+      : { id: download.id, file: download.file, size: download.size, resumed: download.resumed });
+    const failed = outcomes.some((outcome) => outcome.error);
+    print(ctx, outcomes, outcomes.map((outcome) => ({
+      id: outcome.id,
+      file: outcome.file,
+      size: outcome.size !== undefined ? formatBytes(outcome.size) : undefined,
+      error: outcome.error?.message,
+    })), failed ? ["id", "file", "size", "error"] : ["id", "file", "size"]);
+    return failed ? EXIT_CODES.failed : EXIT_CODES.ok;
+  },
+};
+
+const search: Command = {
+  usage: "search <text> [--video <id>] [--type <scene|transcript|image>]... [--min-score <score>] [--limit <n>]",
+  description: "Search scenes, transcripts and images",
+  options: {
+    video: { type: "string" },
+    type: { type: "string", multiple: true },
+    "min-score": { type: "string" },
+    limit: { type: "string" },
+  },
+  async run(ctx, { values, positionals }) {
+    const text = positionals.join(" ");
+    if (!text) throw usageError("search needs the text to search for");
+    const minScore = values["min-score"] !== undefined ? Number(values["min-score"]) : undefined;
+    if (Number.isNaN(minScore)) throw usageError(`--min-score expects a number, got "${values["min-score"]}"`);
+    const result = await ctx.client.search(text, {
+      video_id: values.video as string | undefined,
+      types: oneOf(list(values.type), RESULT_TYPES, "--type"),
+      minScore,
+      limit: integer(values.limit, "--limit"),
+      signal: ctx.signal,
+    });
+    if (result.error) throw result.error;
+
+    print(ctx, result.data, result.data.items.map((item) => ({
+      type: item.type,
+      score: item.score.toFixed(3),
+      object_id: item.metadata.object_id,
+      time: timeRange(item),
+      match: item.type === "transcript" ? item.metadata.text : item.metadata.object_original_name,
+    })));
+    return EXIT_CODES.ok;
+  },
+};
+
+const query: Command = {
+  usage: "query <resource> [--where <condition>]... [--select <columns>] [--order <column>[:desc]] [--limit <n>] [--cursor <cursor>]",
+  description: "Query a resource, e.g. object_storage or jobs",
+  options: {
+    where: { type: "string", multiple: true },
+    select: { type: "string" },
+    order: { type: "string", multiple: true },
+    limit: { type: "string" },
+    cursor: { type: "string" },
+  },
+  async run(ctx, { values, positionals }) {
+    const [resource, ...extra] = positionals;
+    if (!resource || extra.length > 0) throw usageError("query needs exactly one resource, e.g. object_storage");
+    const builder = ctx.client.from<Record<string, unknown>>(resource).select(...(list(values.select) ?? []));
+    for (const condition of (values.where as string[] | undefined) ?? []) {
+      where(builder, parseWhere(condition));
+    }
+    for (const order of (values.order as string[] | undefined) ?? []) {
+      const [column, direction = "asc"] = order.split(":");
+      if (direction !== "asc" && direction !== "desc") throw usageError(`--order direction must be asc or desc, got "${direction}"`);
+      builder.orderBy(column, direction);
+    }
+    builder.limit(integer(values.limit, "--limit") ?? 20);
+    if (values.cursor) builder.cursor(values.cursor as string);
+
+    const result = await builder.abortSignal(ctx.signal);
+    if (result.error) throw result.error;
+    print(ctx, result.data, result.data);
+    if (result.next_cursor) ctx.stderr.write(`Next page: --cursor ${result.next_cursor}\n`);
+    return EXIT_CODES.ok;
+  },
+};
+
+const jobsList: Command = {
+  usage: "jobs list [--status <status>]... [--object <id>] [--limit <n>]",
+  description: "List jobs, newest first",
+  options: {
+    status: { type: "string", multiple: true },
+    object: { type: "string" },
+    limit: { type: "string" },
+  },
+  async run(ctx, { values, positionals }) {
+    if (positionals.length > 0) throw usageError(`Unexpected argument "${positionals[0]}"`);
+    const statuses = oneOf(list(values.status), JOB_STATUSES, "--status");
+    const builder = values.object
+      ? ctx.client.jobsFor(values.object as string)
+      : ctx.client.jobs().orderBy("created_at", "desc");
+    if (statuses) builder.where("status", "in", statuses);
+    const result = await builder.limit(integer(values.limit, "--limit") ?? 20).abortSignal(ctx.signal);
+    if (result.error) throw result.error;
+    print(ctx, result.data, result.data.map(jobRow));
+    return EXIT_CODES.ok;
+  },
+};
+
+const jobsWait: Command = {
+  usage: "jobs wait <ids...> [--timeout <ms>]",
+  description: "Wait for jobs to finish; fails unless all of them complete",
+  options: {
+    timeout: { type: "string" },
+  },
+  async run(ctx, { values, positionals: ids }) {
+    if (ids.length === 0) throw usageError("jobs wait needs at least one job ID");
+    const timeout = integer(values.timeout, "--timeout");
+    const results = await Promise.all(ids.map((id) => ctx.client.waitForJob(id, { timeout, signal: ctx.signal })));
+    if (ctx.signal.aborted) throw ZapdosError.aborted(ctx.signal.reason);
+    // An error for every job, e.g. a refused key, is the command's error
+    const firstError = results.find((result) => result.error)?.error;
+    if (firstError && results.every((result) => result.error)) throw firstError;
+
+    const outcomes = results.map((result, i) => result.error
+      ? { id: ids[i], error: errorJson(result.error) }
+      : result.data);
+    print(ctx, outcomes, results.map((result, i) => result.error
+      ? { id: ids[i], status: "error", error: result.error.message }
+      : jobRow(result.data)));
+    return results.every((result) => result.data?.status === "completed") ? EXIT_CODES.ok : EXIT_CODES.failed;
+  },
+};
+
+const listen: Command = {
+  usage: "listen [--type <event type>]... [--object <id>] [--job <id>] [--count <n>]",
+  description: "Print events as they happen, until Ctrl-C or --count events",
+  options: {
+    type: { type: "string", multiple: true },
+    object: { type: "string" },
+    job: { type: "string" },
+    count: { type: "string" },
+  },
+  async run(ctx, { values }) {
+    const types = oneOf(list(values.type), EVENT_TYPES, "--type");
+    const count = integer(values.count, "--count");
+    const subscription = ctx.client.listen({
+      onReconnecting: ({ attempt }) => ctx.stderr.write(`Connection lost, reconnecting (attempt ${attempt})...\n`),
+    });
+    const stop = () => subscription.close();
+    ctx.signal.addEventListener("abort", stop, { once: true });
+    let seen = 0;
+    try {
+      const events = subscription.events({ types, objectId: values.object as string | undefined, jobId: values.job as string | undefined });
+      for await (const event of events) {
+        // One line per event: NDJSON with --json
+        ctx.stdout.write(ctx.json
+          ? JSON.stringify(event) + "\n"
+          : `${new Date().toISOString()}  ${event.type.padEnd(18)}  ${event.object_id}${"job_id" in event ? `  job ${event.job_id}` : ""}\n`);
+        if (count !== undefined && ++seen >= count) break;
+      }
+    } finally {
+      ctx.signal.removeEventListener("abort", stop);
+      subscription.close();
+    }
+    return EXIT_CODES.ok;
+  },
+};
+
+export const COMMANDS: Record<string, Command> = {
+  upload,
+  download,
+  search,
+  query,
+  "jobs list": jobsList,
+  "jobs wait": jobsWait,
+  listen,
+};
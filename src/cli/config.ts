@@ -0,0 +1,66 @@
+/**
+ * Credentials of the `zapdos` command: taken from the environment, or from a
+ * named profile of the config file.
+ *
+ * ```json
+ * {
+ *   "profiles": {
+ *     "default": { "apiKey": "zk_live_..." },
+ *     "staging": { "apiKey": "zk_test_...", "baseUrl": "https://staging.zapdoslabs.com" }
+ *   }
+ * }
+ * ```
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ZapdosError } from "../errors";
+
+export type Profile = {
+  apiKey?: string;
+  baseUrl?: string;
+};
+
+export type ConfigFile = {
+  profiles?: Record<string, Profile>;
+};
+
+export type Env = Record<string, string | undefined>;
+
+/**
+ * `$ZAPDOS_CONFIG`, or `zapdos/config.json` in the user's config directory.
+ */
+export function configPath(env: Env): string {
+  if (env.ZAPDOS_CONFIG) return env.ZAPDOS_CONFIG;
+  const configHome = env.XDG_CONFIG_HOME || path.join(env.HOME || os.homedir(), ".config");
+  return path.join(configHome, "zapdos", "config.json");
+}
+
+/**
+ * The API key and base URL to use. `ZAPDOS_API_KEY` and `ZAPDOS_BASE_URL`
+ * take precedence over the profile, which is `--profile`, `$ZAPDOS_PROFILE`
+ * or "default".
+ */
+export function resolveProfile(env: Env, profileName?: string): Profile & { apiKey: string } {
+  const name = profileName ?? env.ZAPDOS_PROFILE;
+  const file = configPath(env);
+  let config: ConfigFile = {};
+  try {
+    config = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error: any) {
+    // A missing file is fine as long as the environment has a key
+    if (error?.code !== "ENOENT") {
+      throw new ZapdosError("validation", `Could not read ${file}: ${error?.message ?? error}`, { cause: error });
+    }
+  }
+
+  const profile = config.profiles?.[name ?? "default"];
+  if (name && !profile) {
+    throw new ZapdosError("validation", `No profile "${name}" in ${file}`);
+  }
+  const apiKey = env.ZAPDOS_API_KEY || profile?.apiKey;
+  if (!apiKey) {
+    throw new ZapdosError("auth", `No API key: set ZAPDOS_API_KEY or add a profile to ${file}`);
+  }
+  return { apiKey, baseUrl: env.ZAPDOS_BASE_URL || profile?.baseUrl };
+}
@@ -0,0 +1,116 @@
+/**
+ * The `zapdos` command-line interface, built on `BackendZapdosClient`.
+ * `run()` takes the arguments and streams and resolves to the exit code, so
+ * that the bin itself only wires up the process.
+ */
+import util from "util";
+import { BackendZapdosClient } from "../backend-client";
+import { ZapdosError } from "../errors";
+import { combineSignals } from "../transport";
+import { COMMANDS, EXIT_CODES, type Command } from "./commands";
+import { resolveProfile, type Env } from "./config";
+import type { OutputStream } from "./output";
+
+export type RunOptions = {
+  env?: Env;
+  stdout?: OutputStream;
+  stderr?: OutputStream;
+  /** Aborted on Ctrl-C: transfers are cancelled and `listen` stops. */
+  signal?: AbortSignal;
+};
+
+const GLOBAL_OPTIONS: NonNullable<util.ParseArgsConfig["options"]> = {
+  json: { type: "boolean" },
+  profile: { type: "string" },
+  help: { type: "boolean", short: "h" },
+};
+
+const HELP = `Usage: zapdos <command> [options]
+
+Commands:
+${Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(10)}  ${command.description}`).join("\n")}
+
+Options:
+  --json             Print JSON instead of tables
+  --profile <name>   Profile of the config file to use
+  -h, --help         Show help for a command
+
+The API key is read from ZAPDOS_API_KEY, or from a profile of
+~/.config/zapdos/config.json (or $ZAPDOS_CONFIG).
+`;
+
+function findCommand(argv: string[]): { command: Command; rest: string[] } | undefined {
+  for (const words of [2, 1]) {
+    const name = argv.slice(0, words).join(" ");
+    if (COMMANDS[name]) return { command: COMMANDS[name], rest: argv.slice(words) };
+  }
+  return undefined;
+}
+
+export async function run(argv: string[], options?: RunOptions): Promise<number> {
+  const stdout = options?.stdout ?? process.stdout;
+  const stderr = options?.stderr ?? process.stderr;
+  const env = options?.env ?? process.env;
+  // Aborted once the command is done too, so that work it leaves behind (e.g.
+  // following the indexing jobs of uploads) doesn't keep the process alive
+  const done = new AbortController();
+  const signal = combineSignals(options?.signal, done.signal)!;
+
+  if (argv.length === 0 || argv[0] === "--help" || argv[0] === "-h" || argv[0] === "help") {
+    (argv.length === 0 ? stderr : stdout).write(HELP);
+    return argv.length === 0 ? EXIT_CODES.usage : EXIT_CODES.ok;
+  }
+
+  try {
+    const found = findCommand(argv);
+    if (!found) {
+      const name = argv[0] === "jobs" ? `jobs ${argv[1] ?? ""}`.trim() : argv[0];
+      throw new ZapdosError("validation", `Unknown command "${name}"`);
+    }
+    const { command, rest } = found;
+    const { values, positionals } = parseArgs(rest, command);
+    if (values.help) {
+      stdout.write(`Usage: zapdos ${command.usage}\n\n${command.description}.\n`);
+      return EXIT_CODES.ok;
+    }
+
+    const profile = resolveProfile(env, values.profile as string | undefined);
+    const client = new BackendZapdosClient({ apiKey: profile.apiKey, baseUrl: profile.baseUrl });
+    const ctx = { client, stdout, stderr, json: Boolean(values.json), signal };
+    return await command.run(ctx, { values, positionals }).catch((error) => {
+      // Cancelled transfers may fail with a different error first
+      throw signal.aborted ? ZapdosError.aborted(signal.reason) : error;
+    });
+  } catch (error) {
+    return report(stderr, error);
+  } finally {
+    done.abort();
+  }
+}
+
+function parseArgs(args: string[], command: Command) {
+  try {
+    return util.parseArgs({ args, options: { ...GLOBAL_OPTIONS, ...command.options }, allowPositionals: true, strict: true });
+  } catch (error: any) {
+    // e.g. ERR_PARSE_ARGS_UNKNOWN_OPTION
+    throw new ZapdosError("validation", error?.message ?? String(error), { cause: error });
+  }
+}
+
+function report(stderr: OutputStream, error: unknown): number {
+  const zapdosError = ZapdosError.from(error, { message: "Command failed" });
+  switch (zapdosError.code) {
+    case "aborted":
+      stderr.write("Interrupted.\n");
+      return EXIT_CODES.interrupted;
+    case "auth":
+      stderr.write(`zapdos: ${zapdosError.message}\n`);
+      return EXIT_CODES.auth;
+    case "validation":
+      stderr.write(`zapdos: ${zapdosError.message}\nRun "zapdos --help" for usage.\n`);
+      return EXIT_CODES.usage;
+    default:
+      stderr.write(`zapdos: ${zapdosError.message}${zapdosError.requestId ? ` (request ${zapdosError.requestId})` : ""}\n`);
+      return EXIT_CODES.failed;
+  }
+}
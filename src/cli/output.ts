@@ -0,0 +1,131 @@
+/**
+ * Output of the `zapdos` command: tables for people, JSON for scripts, and
+ * progress bars on stderr while files transfer.
+ */
+
+/** Where the command writes; `process.stdout` and `process.stderr` in the bin. */
+export type OutputStream = {
+  write(chunk: string): unknown;
+  isTTY?: boolean;
+  columns?: number;
+};
+
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Align `rows` under upper-cased headers. Objects are shown as JSON, and
+ * long cells are cut short.
+ */
+export function formatTable(rows: Record<string, unknown>[], columns?: string[]): string {
+  const keys = columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cells = rows.map((row) => keys.map((key) => formatCell(row[key])));
+  const headers = keys.map((key) => key.toUpperCase());
+  const widths = headers.map((header, i) => Math.max(header.length, ...cells.map((row) => row[i].length)));
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd();
+  return [line(headers), ...cells.map(line)].join("\n") + "\n";
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  const flat = text.replace(/\s+/g, " ");
+  return flat.length > MAX_CELL_WIDTH ? `${flat.slice(0, MAX_CELL_WIDTH - 1)}…` : flat;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/** `h:mm:ss`, or `m:ss` under an hour. */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+type Bar = { label: string; loaded: number; total?: number };
+
+const BAR_WIDTH = 24;
+const REDRAW_INTERVAL_MS = 100;
+
+/**
+ * One bar per file in flight plus a total, redrawn in place. Draws nothing
+ * unless `stream` is a terminal, so logs and CI output stay clean.
+ */
+export class ProgressBars {
+  private bars = new Map<string | number, Bar>();
+  private total?: Bar & { detail?: string };
+  private drawnLines = 0;
+  private lastDraw = 0;
+
+  constructor(private readonly stream: OutputStream) { }
+
+  private get enabled() {
+    return Boolean(this.stream.isTTY);
+  }
+
+  update(key: string | number, label: string, loaded: number, total?: number) {
+    if (!this.enabled) return;
+    if (total !== undefined && loaded >= total) {
+      this.bars.delete(key);
+    } else {
+      this.bars.set(key, { label, loaded, total });
+    }
+    this.draw();
+  }
+
+  /** Remove a bar, e.g. of a file that failed. */
+  remove(key: string | number) {
+    if (!this.enabled) return;
+    this.bars.delete(key);
+    this.draw();
+  }
+
+  setTotal(label: string, loaded: number, total: number, detail?: string) {
+    if (!this.enabled) return;
+    this.total = { label, loaded, total, detail };
+    this.draw();
+  }
+
+  /** Clear the bars, before printing the result. */
+  done() {
+    if (!this.enabled) return;
+    this.bars.clear();
+    this.total = undefined;
+    this.draw(true);
+  }
+
+  private draw(force = false) {
+    const now = Date.now();
+    if (!force && now - this.lastDraw < REDRAW_INTERVAL_MS) return;
+    this.lastDraw = now;
+
+    const lines = [...this.bars.values()].map((bar) => renderBar(bar));
+    if (this.total) lines.push(renderBar(this.total, this.total.detail));
+    const width = Math.max(20, (this.stream.columns ?? 80) - 1);
+    // Move back over the previous frame and overwrite it line by line
+    let frame = this.drawnLines > 0 ? `\x1b[${this.drawnLines}A` : "";
+    for (const line of lines) frame += `\x1b[2K${line.slice(0, width)}\n`;
+    for (let i = lines.length; i < this.drawnLines; i++) frame += "\x1b[2K\n";
+    if (this.drawnLines > lines.length) frame += `\x1b[${this.drawnLines - lines.length}A`;
+    this.drawnLines = lines.length;
+    this.stream.write(frame);
+  }
+}
+
+function renderBar({ label, loaded, total }: Bar, detail?: string): string {
+  const ratio = total ? Math.min(1, loaded / total) : 0;
+  const filled = Math.round(ratio * BAR_WIDTH);
+  const bar = total ? `[${"#".repeat(filled)}${"-".repeat(BAR_WIDTH - filled)}]` : `[${"?".repeat(BAR_WIDTH)}]`;
+  const amount = total ? `${formatBytes(loaded)}/${formatBytes(total)}` : formatBytes(loaded);
+  return [bar, `${Math.floor(ratio * 100)}%`.padStart(4), amount, label, detail].filter(Boolean).join(" ");
+}
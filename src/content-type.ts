@@ -0,0 +1,215 @@
+/**
+ * Content type and kind detection for uploads.
+ *
+ * Magic bytes win over the file name, since extensions are often wrong or
+ * missing; the extension covers text formats that have no signature. Short
+ * signatures that plain data can match by chance only win when the extension
+ * is unknown or agrees.
+ */
+
+/** Number of leading bytes read from a file to sniff its type. */
+export const SNIFF_BYTES = 512;
+
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+const EXTENSION_TYPES: Record<string, string> = {
+  // Video
+  mp4: "video/mp4",
+  m4v: "video/x-m4v",
+  mov: "video/quicktime",
+  mkv: "video/x-matroska",
+  webm: "video/webm",
+  avi: "video/x-msvideo",
+  wmv: "video/x-ms-wmv",
+  flv: "video/x-flv",
+  mpg: "video/mpeg",
+  mpeg: "video/mpeg",
+  ts: "video/mp2t",
+  mts: "video/mp2t",
+  m2ts: "video/mp2t",
+  "3gp": "video/3gpp",
+  ogv: "video/ogg",
+  // Images
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  heif: "image/heif",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  // Audio
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/opus",
+  // Documents
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
+
+/**
+ * Broad category of an object, stored as `metadata.kind`. Objects created by
+ * the backend may use other kinds, such as `"scene"`.
+ */
+export type FileKind = "video" | "image" | "audio" | "document" | "other";
+
+/**
+ * Content type for a file name's extension, if it is a known one.
+ */
+export function contentTypeFromName(name: string): string | undefined {
+  const dot = name.lastIndexOf(".");
+  if (dot < 0) return undefined;
+  return EXTENSION_TYPES[name.slice(dot + 1).toLowerCase()];
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * Content type from the leading bytes of a file, if they carry a known
+ * signature.
+ */
+export function sniffContentType(bytes: Uint8Array): string | undefined {
+  if (bytes.length < 4) return undefined;
+
+  // ISO base media (MP4, QuickTime, HEIF...): the brand tells them apart
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "hevc", "hevx"].includes(brand)) return "image/heic";
+    if (brand === "mif1" || brand === "msf1") return "image/heif";
+    if (brand.startsWith("3g")) return "video/3gpp";
+    if (brand === "M4V ") return "video/x-m4v";
+    return "video/mp4";
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // EBML: the doctype follows in the header
+    return ascii(bytes, 0, Math.min(bytes.length, 64)).includes("webm") ? "video/webm" : "video/x-matroska";
+  }
+  if (ascii(bytes, 0, 4) === "RIFF") {
+    const format = ascii(bytes, 8, 12);
+    if (format === "AVI ") return "video/x-msvideo";
+    if (format === "WAVE") return "audio/wav";
+    if (format === "WEBP") return "image/webp";
+    return undefined;
+  }
+  if (startsWith(bytes, [0x30, 0x26, 0xb2, 0x75])) return "video/x-ms-asf";
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0xba]) || startsWith(bytes, [0x00, 0x00, 0x01, 0xb3])) return "video/mpeg";
+  // MPEG transport streams repeat a sync byte every 188 bytes
+  if (bytes.length > 188 && bytes[0] === 0x47 && bytes[188] === 0x47) return "video/mp2t";
+
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+
+  if (ascii(bytes, 0, 3) === "ID3") return "audio/mpeg";
+  if (ascii(bytes, 0, 4) === "fLaC") return "audio/flac";
+  if (ascii(bytes, 0, 4) === "OggS") return "audio/ogg";
+
+  if (ascii(bytes, 0, 5) === "%PDF-") return "application/pdf";
+  return undefined;
+}
+
+/**
+ * Content type from signatures of two or three bytes, or from the sync bits of
+ * an audio frame, which other data may start with too.
+ */
+function sniffWeakContentType(bytes: Uint8Array): string | undefined {
+  if (bytes.length < 4) return undefined;
+
+  if (ascii(bytes, 0, 3) === "FLV" && bytes[3] === 0x01) return "video/x-flv";
+  if (ascii(bytes, 0, 2) === "BM" && bytes.length >= 14) return "image/bmp";
+  if (bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) return undefined;
+
+  // ADTS AAC shares the sync bits of MPEG audio frames, with layer 0
+  const layer = (bytes[1] >> 1) & 0x03;
+  if (layer === 0) {
+    const sampleRate = (bytes[2] >> 2) & 0x0f;
+    return (bytes[1] & 0x10) && sampleRate < 13 ? "audio/aac" : undefined;
+  }
+  const version = (bytes[1] >> 3) & 0x03;
+  const bitrate = bytes[2] >> 4;
+  const sampleRate = (bytes[2] >> 2) & 0x03;
+  // Reserved values, which no frame header uses
+  if (version === 1 || bitrate === 0x0f || sampleRate === 0x03) return undefined;
+  return "audio/mpeg";
+}
+
+/**
+ * Best guess at a file's content type: its signature, then the type the
+ * platform declared for it (e.g. `File.type`), then its extension.
+ */
+export function detectContentType(name: string, head?: Uint8Array, declared?: string): string {
+  const fromName = contentTypeFromName(name);
+  const weak = head && sniffWeakContentType(head);
+  return (head && sniffContentType(head))
+    || (weak && (!fromName || weak === fromName) ? weak : undefined)
+    || (declared && declared !== DEFAULT_CONTENT_TYPE ? declared : undefined)
+    || fromName
+    || DEFAULT_CONTENT_TYPE;
+}
+
+/**
+ * The `kind` stored in an object's metadata for a content type.
+ */
+export function kindFromContentType(contentType: string): FileKind {
+  const [type, subtype = ""] = contentType.toLowerCase().split(";")[0].trim().split("/");
+  if (type === "video") return "video";
+  if (type === "image") return "image";
+  if (type === "audio") return "audio";
+  if (type === "text" || ["pdf", "json", "x-subrip"].includes(subtype)) return "document";
+  return "other";
+}
+
+/**
+ * Reads up to `SNIFF_BYTES` leading bytes of a Blob or byte stream.
+ * Resolves to undefined if the source can't be read.
+ */
+export async function readHead(source: unknown): Promise<Uint8Array | undefined> {
+  try {
+    if (typeof Blob !== "undefined" && source instanceof Blob) {
+      return new Uint8Array(await source.slice(0, SNIFF_BYTES).arrayBuffer());
+    }
+    if (source && typeof (source as AsyncIterable<unknown>)[Symbol.asyncIterator] === "function") {
+      const chunks: Uint8Array[] = [];
+      let length = 0;
+      for await (const chunk of source as AsyncIterable<Uint8Array | string>) {
+        const bytes = typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+        if (length >= SNIFF_BYTES) break;
+      }
+      const head = new Uint8Array(length);
+      let offset = 0;
+      for (const bytes of chunks) {
+        head.set(bytes, offset);
+        offset += bytes.length;
+      }
+      return head.subarray(0, SNIFF_BYTES);
+    }
+  } catch {
+    // Fall back to the name
+  }
+  return undefined;
+}
@@ -0,0 +1,216 @@
+/**
+ * Parallel, resumable file downloads (Node.js only).
+ *
+ * Each file is written to `<dest>.part` and renamed into place once its size
+ * and checksum check out, so the destination never holds a partial file. A
+ * `.part` file left by an interrupted download is resumed with an HTTP Range
+ * request.
+ */
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import stream from "stream";
+import { ZapdosError } from "./errors";
+import { withRetry, type RetryPolicy } from "./retry";
+import { TransportError, type Transport } from "./transport";
+import { BatchProgressTracker, UploadQueue, type BatchUploadProgress } from "./upload-queue";
+
+/**
+ * Progress of a single file of a download.
+ */
+export type DownloadProgress = {
+  file_index: number;
+  id: string;
+  /** Bytes on disk so far, including those of a resumed `.part` file. */
+  loaded: number;
+  /** Size of the file, when known. */
+  total?: number;
+};
+
+/**
+ * Aggregate progress of a batch download. Same shape as for uploads.
+ */
+export type BatchDownloadProgress = BatchUploadProgress;
+
+export type DownloadOptions = {
+  signal?: AbortSignal;
+  /** Files downloaded at the same time. Defaults to 4. */
+  concurrency?: number;
+  onProgress?: (progress: DownloadProgress) => void;
+  onBatchProgress?: (progress: BatchDownloadProgress) => void;
+  /**
+   * Continue from the `.part` file of an earlier, interrupted download.
+   * Defaults to true; `false` starts over and removes `.part` files of
+   * cancelled downloads.
+   */
+  resume?: boolean;
+  /**
+   * Expected SHA-256 (hex) by object ID. Defaults to the `sha256` metadata
+   * of each object, when it has one.
+   */
+  checksums?: Record<string, string>;
+};
+
+/**
+ * Outcome of one file of a download. `file` is the destination path.
+ */
+export type DownloadResult = { id: string; file: string } & (
+  | { size: number; resumed: boolean; error?: undefined }
+  | { error: ZapdosError }
+);
+
+/**
+ * A file to download, with what is known about it up front.
+ */
+export type DownloadTarget = {
+  id: string;
+  destPath: string;
+  url?: string;
+  size?: number;
+  sha256?: string;
+};
+
+export async function downloadFiles(opts: {
+  transport: Transport;
+  retry: RetryPolicy;
+  targets: DownloadTarget[];
+  options?: DownloadOptions;
+}): Promise<DownloadResult[]> {
+  const { targets, options = {} } = opts;
+  const queue = new UploadQueue({ concurrency: options.concurrency });
+  const tracker = new BatchProgressTracker(
+    targets.reduce((sum, target) => sum + (target.size ?? 0), 0),
+    targets.length,
+    options.onBatchProgress,
+  );
+
+  return Promise.all(targets.map(async (target, index): Promise<DownloadResult> => {
+    const { id, destPath: file } = target;
+    if (!target.url) {
+      tracker.fail();
+      return { id, file, error: new ZapdosError("not_found", `No download URL returned for id: ${id}`) };
+    }
+    try {
+      const { size, resumed } = await queue.run(() =>
+        downloadFile({ ...opts, target, url: target.url!, options }, (loaded) => {
+          options.onProgress?.({ file_index: index, id, loaded, total: target.size });
+          tracker.update(index, loaded);
+        }),
+      );
+      tracker.complete(index, size);
+      return { id, file, size, resumed };
+    } catch (error) {
+      tracker.fail();
+      if (options.signal?.aborted) {
+        if (options.resume === false) await fs.promises.rm(partPathOf(file), { force: true });
+        return { id, file, error: ZapdosError.aborted(error) };
+      }
+      const cause = ZapdosError.from(error);
+      const message = cause.code === "download_failed" ? cause.message : `Failed to download ${id}: ${cause.message}`;
+      return {
+        id,
+        file,
+        error: new ZapdosError("download_failed", message, {
+          status: cause.status,
+          requestId: cause.requestId,
+          retryable: cause.retryable,
+          cause,
+        }),
+      };
+    }
+  }));
+}
+
+function partPathOf(file: string) {
+  return `${file}.part`;
+}
+
+async function sizeOnDisk(file: string) {
+  try {
+    return (await fs.promises.stat(file)).size;
+  } catch {
+    return 0;
+  }
+}
+
+async function downloadFile(
+  opts: { transport: Transport; retry: RetryPolicy; target: DownloadTarget; url: string; options: DownloadOptions },
+  onProgress: (loaded: number) => void,
+): Promise<{ size: number; resumed: boolean }> {
+  const { target, options } = opts;
+  const { signal } = options;
+  const partPath = partPathOf(target.destPath);
+  await fs.promises.mkdir(path.dirname(target.destPath), { recursive: true });
+  if (options.resume === false) await fs.promises.rm(partPath, { force: true });
+  let resumed = false;
+
+  await withRetry(async () => {
+    let offset = await sizeOnDisk(partPath);
+    // Ranges are only asked for when the size is known, so a complete
+    // `.part` file never meets a 416 response
+    if (target.size === undefined || offset > target.size) offset = 0;
+    if (target.size !== undefined && offset === target.size && offset > 0) {
+      resumed = true;
+      onProgress(offset);
+      return;
+    }
+
+    const response = await opts.transport.request<ReadableStream<Uint8Array>>({
+      method: "GET",
+      url: opts.url,
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+      responseType: "stream",
+      signal,
+    });
+    // A server ignoring the range sends the whole file again
+    if (response.status !== 206) offset = 0;
+    resumed ||= offset > 0;
+
+    let loaded = offset;
+    onProgress(loaded);
+    const counter = new stream.Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        loaded += chunk.length;
+        onProgress(loaded);
+        callback(null, chunk);
+      },
+    });
+    try {
+      await stream.promises.pipeline(
+        stream.Readable.fromWeb(response.data as any),
+        counter,
+        fs.createWriteStream(partPath, { flags: offset > 0 ? "a" : "w" }),
+        { signal },
+      );
+    } catch (error: any) {
+      if (signal?.aborted) throw ZapdosError.aborted(error);
+      // A connection dropped mid-body is retried like any network error,
+      // picking up from what reached the `.part` file
+      throw new TransportError(error?.message || "Download interrupted", undefined, undefined, {}, error);
+    }
+  }, opts.retry, signal);
+
+  const size = await sizeOnDisk(partPath);
+  if (target.size !== undefined && size !== target.size) {
+    await fs.promises.rm(partPath, { force: true });
+    throw new ZapdosError("download_failed", `Size mismatch for ${target.id}: expected ${target.size} bytes, got ${size}`);
+  }
+  if (target.sha256) {
+    const actual = await sha256File(partPath);
+    if (actual !== target.sha256.toLowerCase()) {
+      await fs.promises.rm(partPath, { force: true });
+      throw new ZapdosError("download_failed", `Checksum mismatch for ${target.id}: expected ${target.sha256}, got ${actual}`);
+    }
+  }
+  await fs.promises.rename(partPath, target.destPath);
+  return { size, resumed };
+}
+
+/**
+ * Hex SHA-256 of a file's contents.
+ */
+export async function sha256File(file: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(file)) hash.update(chunk);
+  return hash.digest("hex");
+}
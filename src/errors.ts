@@ -0,0 +1,127 @@
+import { TransportError } from "./transport";
+
+/**
+ * Kinds of failure reported by the client.
+ *
+ * - `auth`: missing, invalid or insufficient credentials (401/403)
+ * - `not_found`: the requested object or row does not exist (404)
+ * - `validation`: the request was rejected as malformed (400/422), or failed
+ *   a client-side check before being sent
+ * - `conflict`: the request conflicts with the current state (409)
+ * - `rate_limited`: too many requests (429)
+ * - `server`: the server failed to handle the request (5xx)
+ * - `network`: no response was received
+ * - `timeout`: the request timed out
+ * - `aborted`: the operation was cancelled through an `AbortSignal`
+ * - `invalid_response`: the server answered with something unexpected
+ * - `upload_failed` / `download_failed`: a file transfer failed
+ * - `unknown`: anything else
+ */
+export type ZapdosErrorCode =
+  | "auth"
+  | "not_found"
+  | "validation"
+  | "conflict"
+  | "rate_limited"
+  | "server"
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "invalid_response"
+  | "upload_failed"
+  | "download_failed"
+  | "unknown";
+
+export type ZapdosErrorOptions = {
+  status?: number;
+  requestId?: string;
+  retryable?: boolean;
+  cause?: unknown;
+  /** Error body returned by the server, if any. */
+  details?: unknown;
+};
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Error returned in the `error` field of every `Maybe` result, and thrown by
+ * the async iterators. Branch on `code` rather than on `message`.
+ */
+export class ZapdosError extends Error {
+  public readonly code: ZapdosErrorCode;
+  public readonly status?: number;
+  public readonly requestId?: string;
+  public readonly retryable: boolean;
+  public readonly cause?: unknown;
+  public readonly details?: unknown;
+
+  constructor(code: ZapdosErrorCode, message: string, options?: ZapdosErrorOptions) {
+    super(message);
+    this.name = "ZapdosError";
+    this.code = code;
+    this.status = options?.status;
+    this.requestId = options?.requestId;
+    this.retryable = options?.retryable ?? false;
+    this.cause = options?.cause;
+    this.details = options?.details;
+  }
+
+  /**
+   * Convert anything caught from a request into a `ZapdosError`. Transport
+   * errors are classified by HTTP status; `code` overrides the classification
+   * (e.g. `upload_failed`) while keeping status and retryability.
+   */
+  static from(error: unknown, fallback?: { code?: ZapdosErrorCode; message?: string }): ZapdosError {
+    if (error instanceof ZapdosError) return error;
+
+    if (error instanceof TransportError) {
+      const body = error.data as any;
+      const message = body?.error?.message ?? body?.message ?? (error.message || fallback?.message);
+      if (isAbortError(error.cause)) {
+        return ZapdosError.aborted(error);
+      }
+      const isTimeout = (error.cause as any)?.name === "TimeoutError";
+      return new ZapdosError(fallback?.code ?? codeForStatus(error.status, isTimeout), message, {
+        status: error.status,
+        requestId: error.headers["x-request-id"] ?? body?.request_id,
+        retryable: error.status === undefined || RETRYABLE_STATUSES.includes(error.status),
+        cause: error,
+        details: body ?? undefined,
+      });
+    }
+
+    if (isAbortError(error)) {
+      return ZapdosError.aborted(error);
+    }
+    const message = (error as any)?.message || fallback?.message || "Unknown error";
+    return new ZapdosError(fallback?.code ?? "unknown", message, { cause: error });
+  }
+
+  /**
+   * The error every cancelled operation resolves with.
+   */
+  static aborted(cause?: unknown): ZapdosError {
+    return new ZapdosError("aborted", "The operation was aborted", { cause });
+  }
+}
+
+/**
+ * Whether `error` is what fetch, axios or Node streams throw when an
+ * `AbortSignal` fires.
+ */
+export function isAbortError(error: unknown): boolean {
+  const name = (error as any)?.name;
+  return name === "AbortError" || name === "CanceledError" || (error as any)?.code === "ABORT_ERR";
+}
+
+function codeForStatus(status: number | undefined, isTimeout: boolean): ZapdosErrorCode {
+  if (status === undefined) return isTimeout ? "timeout" : "network";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not_found";
+  if (status === 408) return "timeout";
+  if (status === 409) return "conflict";
+  if (status === 429) return "rate_limited";
+  if (status === 400 || status === 422) return "validation";
+  if (status >= 500) return "server";
+  return "unknown";
+}
@@ -1,29 +1,100 @@
 import { BackendZapdosClient } from "./backend-client";
 import { BrowserZapdosClient } from "./browser-client";
+import { ZapdosError } from "./errors";
+import { detectContentType, kindFromContentType } from "./content-type";
+import type { FileKind } from "./content-type";
+import type { ZapdosErrorCode } from "./errors";
+import type { BatchDownloadProgress, DownloadOptions, DownloadProgress, DownloadResult } from "./download";
+import { createAxiosTransport, createFetchTransport, TransportError } from "./transport";
+import type { RetryOptions } from "./retry";
+import { ZapdosSubscription } from "./subscription";
+import type { BrowserListenOptions, EventFilter, SocketLike, SubscriptionOptions, SubscriptionState, ZapdosEvent, ZapdosEventType } from "./subscription";
+import type { BrowserToken, BrowserTokenOptions, BrowserTokenScope } from "./token";
+import { toCaptions, toParagraphs, toPlainText, toSRT, toWebVTT } from "./transcript";
+import type { Caption, CaptionOptions, ParagraphOptions, SrtOptions, TextOptions, WebVttOptions } from "./transcript";
+import { UploadQueue } from "./upload-queue";
+import { MemorySignedUrlStore, SignedUrlCache } from "./url-cache";
+import type { SignedUrl, SignedUrlCacheOptions, SignedUrlStore } from "./url-cache";
+import type { ManifestEntry, SyncManifest, SyncOptions, SyncResult } from "./sync";
+import type { BatchUploadProgress } from "./upload-queue";
+import type { FetchTransportOptions, Transport, TransportRequest, TransportResponse } from "./transport";
 import type {
   BackendClientOptions,
   BrowserClientOptions,
   BaseClientOptions,
+  BackendUploadOptions,
+  BaseObjectMetadata,
+  ChunkedUploadOptions,
+  FileTypeOverride,
+  GroupedSearchResults,
+  HydratedSearchResultItem,
+  ImageSearchResult,
+  JobItem,
+  JobStatus,
+  JobType,
+  Maybe,
+  MultipartUploadState,
+  ObjectMetadata,
   ObjectStorageItem,
-  VideoObject
+  Range,
+  SceneSearchResult,
+  SearchHydration,
+  SearchHydrationFields,
+  SearchOptions,
+  SearchResultItem,
+  SearchResults,
+  SearchResultType,
+  TokenSource,
+  Transcription,
+  TranscriptionSegment,
+  TranscriptionWord,
+  TranscriptSearchResult,
+  UploadBody,
+  UploadOptions,
+  UploadSource,
+  VideoObject,
+  VideoSearchGroup,
+  WaitForJobOptions
 } from "./types";
 
 /**
  * Create a Zapdos client for Node.js (backend) only.
+ * `M` types the metadata fields you attach to your objects.
  */
-export function createClient(options: BackendClientOptions) {
-  return new BackendZapdosClient(options);
+export function createClient<M extends object = {}>(options: BackendClientOptions) {
+  return new BackendZapdosClient<M>(options);
 }
 
 /**
  * Create a Zapdos client for browser only.
+ * `M` types the metadata fields you attach to your objects.
  */
-export function createBrowserClient(options?: BrowserClientOptions) {
-  return new BrowserZapdosClient(options);
+export function createBrowserClient<M extends object = {}>(options?: BrowserClientOptions) {
+  return new BrowserZapdosClient<M>(options);
 }
 
+export { createAxiosTransport, createFetchTransport, TransportError, UploadQueue, ZapdosError, ZapdosSubscription };
+export { MemorySignedUrlStore, SignedUrlCache };
+export { detectContentType, kindFromContentType };
+export { toCaptions, toParagraphs, toPlainText, toSRT, toWebVTT };
+
 // Export types for consumers
-export type { BackendClientOptions, BaseClientOptions, BrowserClientOptions, ObjectStorageItem, VideoObject };
+export type { BackendClientOptions, BaseClientOptions, BrowserClientOptions, Maybe, ObjectStorageItem, VideoObject };
+export type { BackendUploadOptions, BatchUploadProgress, ChunkedUploadOptions, MultipartUploadState, UploadBody, UploadOptions, UploadSource };
+export type { BatchDownloadProgress, DownloadOptions, DownloadProgress, DownloadResult };
+export type { SignedUrl, SignedUrlCacheOptions, SignedUrlStore };
+export type { ManifestEntry, SyncManifest, SyncOptions, SyncResult };
+export type { FileKind, FileTypeOverride };
+export type { BaseObjectMetadata, ObjectMetadata, TokenSource };
+export type { BrowserToken, BrowserTokenOptions, BrowserTokenScope };
+export type { JobItem, JobStatus, JobType, WaitForJobOptions };
+export type { GroupedSearchResults, Range, SearchOptions, SearchResults, VideoSearchGroup };
+export type { HydratedSearchResultItem, SearchHydration, SearchHydrationFields };
+export type { ImageSearchResult, SceneSearchResult, SearchResultItem, SearchResultType, TranscriptSearchResult };
+export type { BrowserListenOptions, EventFilter, SocketLike, SubscriptionOptions, SubscriptionState, ZapdosEvent, ZapdosEventType };
+export type { Caption, CaptionOptions, ParagraphOptions, SrtOptions, TextOptions, Transcription, TranscriptionSegment, TranscriptionWord, WebVttOptions };
+export type { FetchTransportOptions, RetryOptions, Transport, TransportRequest, TransportResponse };
+export type { ZapdosErrorCode };
 
 // Default export for convenience
 export default { createClient, createBrowserClient };
@@ -0,0 +1,174 @@
+/**
+ * Chunked (multipart) uploads.
+ *
+ * Large files are sent in fixed-size parts so that a failure only costs the
+ * part in flight, and an interrupted upload can be resumed from its
+ * serializable `MultipartUploadState`. The protocol, authenticated with the
+ * `X-Zapdos-Token` of the object's signed URL:
+ *
+ * - `POST   /v1/storage/:object_id/multipart`                      `{ size, part_size, file_name }` -> `{ data: { upload_id } }`
+ * - `GET    /v1/storage/:object_id/multipart/:upload_id`           -> `{ data: { parts: [{ part_number, etag, size }] } }`
+ * - `PUT    /v1/storage/:object_id/multipart/:upload_id/parts/:n`  raw bytes -> `{ data: { etag } }` (or an `ETag` header)
+ * - `POST   /v1/storage/:object_id/multipart/:upload_id/complete`  `{ parts: [{ part_number, etag }] }`
+ *
+ * Part numbers start at 1. For streams of unknown size, `size` is left out
+ * when starting the upload and sent with `complete` instead; the last part is
+ * the first one shorter than `part_size`.
+ */
+import { ZapdosError } from "./errors";
+import { withRetry, type RetryPolicy } from "./retry";
+import type { Transport } from "./transport";
+import type { Maybe, MultipartUploadState, UploadCallbacks } from "./types";
+
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+export async function uploadMultipart(opts: {
+  transport: Transport;
+  baseUrl: string;
+  object_id: string;
+  token: string;
+  file_name: string;
+  /** Undefined for streams of unknown size. */
+  size?: number;
+  partSize: number;
+  /**
+   * Returns the body for bytes `[start, end)` of the file. With an unknown
+   * size, it must resolve with the bytes themselves, fewer at the end.
+   */
+  readPart: (start: number, end: number) => unknown;
+  /** State of a previous attempt to resume from. */
+  state?: MultipartUploadState;
+  retry: RetryPolicy;
+  signal?: AbortSignal;
+  callbacks?: UploadCallbacks;
+  /** Called after every change with the state to persist. */
+  onStateChange?: (state: MultipartUploadState) => void;
+  /** Awaited before each part, so that a paused queue stops between parts. */
+  whenRunning?: () => Promise<void>;
+}): Promise<Maybe<MultipartUploadState>> {
+  const { transport, retry, signal, callbacks } = opts;
+  const url = `${opts.baseUrl}/v1/storage/${opts.object_id}/multipart`;
+  const headers = { "X-Zapdos-Token": opts.token };
+
+  const emit = (state: MultipartUploadState) => {
+    const snapshot = { ...state, parts: state.parts.map((part) => ({ ...part })) };
+    opts.onStateChange?.(snapshot);
+    callbacks?.onUploadStateChange?.({ state: snapshot });
+  };
+
+  try {
+    let state = opts.state?.object_id === opts.object_id && opts.state.size === opts.size
+      ? { ...opts.state, parts: [...opts.state.parts] }
+      : undefined;
+
+    if (state) {
+      // The server's list of parts is authoritative; a part may have landed
+      // after the state was last persisted.
+      try {
+        const response = await withRetry(() => transport.request({
+          method: "GET",
+          url: `${url}/${state!.upload_id}`,
+          headers,
+          signal,
+        }), retry, signal);
+        state.parts = response.data?.data?.parts ?? state.parts;
+      } catch (error) {
+        if (ZapdosError.from(error).code !== "not_found") throw error;
+        // The upload expired on the server: start over
+        state = undefined;
+      }
+    }
+
+    if (!state) {
+      const response = await withRetry(() => transport.request({
+        method: "POST",
+        url,
+        headers,
+        body: { size: opts.size, part_size: opts.partSize, file_name: opts.file_name },
+        signal,
+      }), retry, signal);
+      const upload_id = response.data?.data?.upload_id;
+      if (!upload_id) {
+        throw new ZapdosError("invalid_response", "No upload id returned from server");
+      }
+      state = {
+        object_id: opts.object_id,
+        token: opts.token,
+        upload_id,
+        file_name: opts.file_name,
+        size: opts.size ?? 0,
+        part_size: opts.partSize,
+        parts: [],
+      };
+    }
+    emit(state);
+
+    const known = opts.size !== undefined;
+    const partSize = state.part_size;
+    const partCount = known ? Math.max(1, Math.ceil(state.size / partSize)) : Infinity;
+    const done = new Set(state.parts.map((part) => part.part_number));
+    let uploadedBytes = state.parts.reduce((sum, part) => sum + part.size, 0);
+    const reportProgress = (loaded: number) => {
+      const total = known ? state!.size : 0;
+      const value = total ? Math.round((loaded / total) * 100) : known ? 100 : 0;
+      callbacks?.onProgress?.({ value, loaded, total });
+    };
+    reportProgress(uploadedBytes);
+
+    for (let part_number = 1; part_number <= partCount; part_number++) {
+      if (done.has(part_number)) continue;
+      await opts.whenRunning?.();
+      const start = (part_number - 1) * partSize;
+      let end = Math.min(state.size, start + partSize);
+      if (!known) {
+        // Read ahead to learn the part's length; a short part is the last one
+        const head = (await opts.readPart(start, start + partSize)) as Uint8Array;
+        end = start + head.byteLength;
+        if (head.byteLength === 0 && part_number > 1) break;
+      }
+
+      const response = await withRetry(async () => {
+        const body = await opts.readPart(start, end);
+        const isBlob = typeof Blob !== "undefined" && body instanceof Blob;
+        return transport.request({
+          method: "PUT",
+          url: `${url}/${state!.upload_id}/parts/${part_number}`,
+          // Browsers compute the length of a Blob themselves and refuse the header
+          headers: isBlob ? headers : { ...headers, "Content-Length": String(end - start) },
+          body,
+          signal,
+          onUploadProgress: ({ loaded }) => reportProgress(uploadedBytes + loaded),
+        });
+      }, retry, signal);
+
+      const etag = response.data?.data?.etag ?? response.headers.etag;
+      if (!etag) {
+        throw new ZapdosError("invalid_response", `No etag returned for part ${part_number}`);
+      }
+      state.parts.push({ part_number, etag, size: end - start });
+      uploadedBytes += end - start;
+      if (!known) state.size = uploadedBytes;
+      reportProgress(uploadedBytes);
+      emit(state);
+      if (!known && end - start < partSize) break;
+    }
+
+    const parts = [...state.parts]
+      .sort((a, b) => a.part_number - b.part_number)
+      .map(({ part_number, etag }) => ({ part_number, etag }));
+    await withRetry(() => transport.request({
+      method: "POST",
+      url: `${url}/${state!.upload_id}/complete`,
+      headers,
+      body: known ? { parts } : { parts, size: state!.size },
+      signal,
+    }), retry, signal);
+
+    callbacks?.onStored?.();
+    return { data: state };
+  } catch (error) {
+    const zapdosError = ZapdosError.from(error, { code: "upload_failed", message: "Chunked upload failed" });
+    callbacks?.onFailed?.({ message: zapdosError.message, error: zapdosError });
+    return { error: zapdosError };
+  }
+}
@@ -10,6 +10,9 @@
  *   .from("objects")
  *   .select("id", "name", "metadata")
  *   .where("metadata->>size", ">", 1024)
+ *   .or(q => q
+ *     .where("metadata->>'kind'", "=", "video")
+ *     .not(q => q.where("metadata->>'kind'", "=", "scene")))
  *   .sort("desc")
  *   .limit(10)
  *   .cursor("some-cursor-id");
@@ -24,7 +27,11 @@
  *   "from": "objects",
  *   "select": ["id", "name", "metadata"],
  *   "where": [
- *     ["metadata->>size", ">", 1024]
+ *     ["metadata->>size", ">", 1024],
+ *     { "or": [
+ *       ["metadata->>'kind'", "=", "video"],
+ *       { "not": [["metadata->>'kind'", "=", "scene"]] }
+ *     ] }
  *   ],
  *   "sort": "desc",
  *   "limit": 10,
@@ -32,115 +39,459 @@
  * }
  * ```
  */
-import axios from "axios";
+import { ZapdosError } from "./errors";
+import type { Transport } from "./transport";
 import { Maybe } from "./types";
 
+/**
+ * Request headers, or a function resolving them right before each request
+ * (e.g. to attach a token that may have been refreshed).
+ */
+export type HeadersSource = Record<string, string> | (() => Promise<Record<string, string>>);
+
 // This class is not exported. It contains the core logic for making the request
 // and handling the promise-like behavior.
 class RequestBuilderCore<T> {
   constructor(
     public baseUrl: string,
-    public headers: Record<string, string>,
+    public headers: HeadersSource,
     public resource: string,
     public queryParams: Record<string, any>,
+    public transport: Transport,
   ) {
 
   }
 
-  protected getPromise(): Promise<T> {
+  protected signal?: AbortSignal;
+
+  /**
+   * Cancel the request (and any further pages) when `signal` fires. The
+   * result then carries an `aborted` error.
+   */
+  abortSignal(signal: AbortSignal | undefined): this {
+    this.signal = signal;
+    return this;
+  }
+
+  protected getPromise(queryParams: Record<string, any> = this.queryParams): Promise<T> {
     const url = `${this.baseUrl}/v1/query`;
     // The request body is flattened, with `from` at the top level.
     const body = {
       from: this.resource,
-      ...this.queryParams,
+      ...queryParams,
     };
 
-    return axios.post<T>(url, body, {
-      headers: {
-        "Content-Type": "application/json",
-        ...this.headers,
-      },
-    })
-      .then((res: { data: T }) => res.data)
-      .catch((error: any) => {
-        if (
-          error?.isAxiosError &&
-          error?.response &&
-          typeof error.response.data === "object"
-        ) {
-          return error.response.data;
+    const headers = this.headers;
+    return (typeof headers === "function" ? headers() : Promise.resolve(headers))
+      .then((resolved) => this.transport.request<T>({
+        method: "POST",
+        url,
+        body,
+        signal: this.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...resolved,
+        },
+      }))
+      .then((res) => {
+        const result = res.data as any;
+        if (result?.error) {
+          return { error: new ZapdosError("unknown", result.error.message ?? "Query failed", { details: result.error }) } as T;
         }
-        return { error: { message: error?.message || "Unknown error" } };
-      });
+        return result;
+      })
+      .catch((error: unknown) => ({ error: ZapdosError.from(error, { message: "Query failed" }) }) as T);
+  }
+
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?:
+      | ((value: T) => TResult1 | PromiseLike<TResult1>)
+      | undefined
+      | null,
+    onrejected?:
+      | ((reason: any) => TResult2 | PromiseLike<TResult2>)
+      | undefined
+      | null,
+  ) {
+    return this.getPromise().then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?:
+      | ((reason: any) => TResult | PromiseLike<TResult>)
+      | undefined
+      | null,
+  ) {
+    return this.getPromise().catch(onrejected);
+  }
+
+  finally(
+    onfinally?: (() => void) | undefined | null,
+  ) {
+    return this.getPromise().finally(onfinally);
+  }
+}
+
+/**
+ * A scalar value that can be compared against a column.
+ */
+export type WhereScalar = string | number | boolean | null;
+
+/**
+ * Any JSON value, used as the right-hand side of `@>` (JSON containment).
+ */
+export type JsonValue = WhereScalar | JsonValue[] | { [key: string]: JsonValue };
+
+/** Operators comparing a column with a single scalar value. `~` is a regex match. */
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "~";
+/** Operators testing membership in a list of scalar values. */
+export type ListOperator = "in" | "not in";
+/** JSON containment: the column must contain the given JSON value. */
+export type ContainsOperator = "@>";
+/** Operators taking no value. */
+export type NullOperator = "is null" | "is not null";
+
+export type WhereOperator = ComparisonOperator | ListOperator | ContainsOperator | NullOperator;
+
+// JSON paths into an object-valued column, e.g. `metadata->>'size'` (text) and
+// `metadata->'parents'` (JSON). Recursion stops after a few levels to keep the
+// union small.
+type JsonPath<Prefix extends string, V, Depth extends unknown[] = []> =
+  Depth["length"] extends 3
+  ? never
+  : V extends readonly unknown[]
+  ? never
+  : V extends object
+  ? {
+    [K in keyof V & string]:
+    | `${Prefix}->>'${K}'`
+    | `${Prefix}->'${K}'`
+    | JsonPath<`${Prefix}->'${K}'`, NonNullable<V[K]>, [...Depth, unknown]>
+  }[keyof V & string]
+  : never;
+
+/**
+ * Columns of `T` that can be used in `.where()`: top-level keys plus JSON
+ * paths into object-valued columns. Falls back to `string` when `T` is not
+ * known (e.g. `from("some_resource")` without a type argument).
+ */
+export type ColumnPath<T> = unknown extends T
+  ? string
+  : { [K in keyof T & string]: K | JsonPath<K, NonNullable<T[K]>> }[keyof T & string];
+
+/**
+ * Top-level columns of `T` that can be passed to `.select()`.
+ */
+export type SelectableColumn<T> = unknown extends T ? string : keyof T & string;
+
+/**
+ * Result row type after selecting `K` from `T`.
+ */
+export type Selected<T, K extends string> = unknown extends T ? T : Pick<T, K & keyof T>;
+
+/**
+ * A single condition in the `where` list of a query body. Plain tuples are
+ * compared directly; groups combine their children with AND, OR or NOT (the
+ * children of a `not` group are ANDed together before being negated).
+ * Top-level conditions are always ANDed.
+ */
+export type WhereCondition =
+  | [field: string, operator: WhereOperator, value: WhereScalar | WhereScalar[]]
+  | { and: WhereCondition[] }
+  | { or: WhereCondition[] }
+  | { not: WhereCondition[] };
+
+/**
+ * Callback used by `.and()`, `.or()` and `.not()` to describe a nested group.
+ */
+export type FilterGroupCallback<T> = (q: FilterBuilder<T>) => FilterBuilder<T> | void;
+
+/**
+ * Collects the conditions of a nested filter group. Passed to the callbacks of
+ * `.and()`, `.or()` and `.not()`; groups can be nested arbitrarily deep.
+ */
+export class FilterBuilder<T> {
+  public readonly conditions: WhereCondition[] = [];
+
+  where(column: ColumnPath<T>, operator: NullOperator): FilterBuilder<T>;
+  where(column: ColumnPath<T>, operator: ListOperator, value: readonly WhereScalar[]): FilterBuilder<T>;
+  where(column: ColumnPath<T>, operator: ContainsOperator, value: JsonValue): FilterBuilder<T>;
+  where(column: ColumnPath<T>, operator: ComparisonOperator, value: WhereScalar): FilterBuilder<T>;
+  where(column: string, operator: WhereOperator, value?: JsonValue | readonly WhereScalar[]): FilterBuilder<T> {
+    this.conditions.push(toCondition(column, operator, value));
+    return this;
   }
+
+  and(build: FilterGroupCallback<T>): FilterBuilder<T> {
+    pushGroup(this.conditions, "and", build);
+    return this;
+  }
+
+  or(build: FilterGroupCallback<T>): FilterBuilder<T> {
+    pushGroup(this.conditions, "or", build);
+    return this;
+  }
+
+  not(build: FilterGroupCallback<T>): FilterBuilder<T> {
+    pushGroup(this.conditions, "not", build);
+    return this;
+  }
+}
+
+/**
+ * Serialize a single `.where()` call into the tuple sent to the server.
+ * - `@>` takes JSON, so non-string values are stringified.
+ * - `->>` paths extract text, so booleans are compared as "true"/"false".
+ * - `is null` / `is not null` carry a `null` placeholder value.
+ */
+function toCondition(
+  column: string,
+  operator: WhereOperator,
+  value?: JsonValue | readonly WhereScalar[],
+): WhereCondition {
+  if (operator === "is null" || operator === "is not null") {
+    return [column, operator, null];
+  }
+  if (operator === "@>") {
+    return [column, operator, typeof value === "string" ? value : JSON.stringify(value)];
+  }
+  if (operator === "in" || operator === "not in") {
+    if (!Array.isArray(value)) {
+      throw new Error(`Operator "${operator}" expects an array value`);
+    }
+    return [column, operator, [...value] as WhereScalar[]];
+  }
+  if (typeof value === "boolean" && column.includes("->>")) {
+    return [column, operator, String(value)];
+  }
+  return [column, operator, value as WhereScalar];
 }
 
+function pushGroup<T>(
+  target: WhereCondition[],
+  kind: "and" | "or" | "not",
+  build: FilterGroupCallback<T>,
+) {
+  const group = new FilterBuilder<T>();
+  build(group);
+  // Empty groups would be ambiguous on the server, so they are dropped.
+  if (group.conditions.length === 0) return;
+  target.push({ [kind]: group.conditions } as WhereCondition);
+}
+
+export type SortDirection = "asc" | "desc";
+
+/** Aggregate functions supported by `.aggregate()`. */
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+/**
+ * Aggregates to compute, keyed by the alias they are returned under.
+ * Use `"*"` as the column to count rows.
+ */
+export type AggregateSpec<T> = Record<string, [fn: AggregateFunction, column: ColumnPath<T> | "*"]>;
+
+/**
+ * Columns to group by, keyed by the alias they are returned under.
+ */
+export type GroupBySpec<T> = Record<string, ColumnPath<T>>;
+
+/**
+ * A row returned by `.aggregate()`: one string per group column and one
+ * number per aggregate.
+ */
+export type AggregateRow<S, G> = { [K in keyof G]: string } & { [K in keyof S]: number };
+
+/**
+ * Options for walking a query page by page with `.pages()` or `.paginate()`.
+ */
+export type PaginateOptions = {
+  /** Rows requested per page. Defaults to the query's `.limit()`, or 100. */
+  pageSize?: number;
+  /** Stop once this many rows have been yielded in total. */
+  maxItems?: number;
+};
+
 /**
  * Query builder.
  * It has all the query methods like .where(), .limit(), etc., and is thenable.
  */
 
-export class QueryBuilder<T> extends RequestBuilderCore<Maybe<T[]>> {
-  limit(limit: number): QueryBuilder<T> {
+export class QueryBuilder<T, R = T> extends RequestBuilderCore<Maybe<R[]> & { next_cursor?: string | null }> {
+  limit(limit: number): QueryBuilder<T, R> {
     this.queryParams["limit"] = limit;
     return this;
   }
 
-  sort(sort: "asc" | "desc"): QueryBuilder<T> {
+  sort(sort: SortDirection): QueryBuilder<T, R> {
     this.queryParams["sort"] = sort;
     return this;
   }
 
-  cursor(cursor: string): QueryBuilder<T> {
+  /**
+   * Order the results by a column. Call repeatedly to add secondary keys.
+   */
+  orderBy(column: ColumnPath<T>, direction: SortDirection = "asc"): QueryBuilder<T, R> {
+    if (!this.queryParams.order_by) {
+      this.queryParams.order_by = [];
+    }
+    this.queryParams.order_by.push([column, direction]);
+    return this;
+  }
+
+  cursor(cursor: string): QueryBuilder<T, R> {
     this.queryParams["cursor"] = cursor;
     return this;
   }
 
-  where(field: string, operator: string, value: string | number): QueryBuilder<T> {
+  where(column: ColumnPath<T>, operator: NullOperator): QueryBuilder<T, R>;
+  where(column: ColumnPath<T>, operator: ListOperator, value: readonly WhereScalar[]): QueryBuilder<T, R>;
+  where(column: ColumnPath<T>, operator: ContainsOperator, value: JsonValue): QueryBuilder<T, R>;
+  where(column: ColumnPath<T>, operator: ComparisonOperator, value: WhereScalar): QueryBuilder<T, R>;
+  where(column: string, operator: WhereOperator, value?: JsonValue | readonly WhereScalar[]): QueryBuilder<T, R> {
+    this.conditions.push(toCondition(column, operator, value));
+    return this;
+  }
+
+  /**
+   * AND a nested group of conditions. Mostly useful inside `.or()`.
+   */
+  and(build: FilterGroupCallback<T>): QueryBuilder<T, R> {
+    pushGroup(this.conditions, "and", build);
+    return this;
+  }
+
+  /**
+   * Match rows satisfying at least one of the group's conditions.
+   *
+   * ```typescript
+   * client.from("object_storage").select().or(q => q
+   *   .where("metadata->>'content_type'", "~", "^video/")
+   *   .where("metadata->>'content_type'", "~", "^image/"));
+   * ```
+   */
+  or(build: FilterGroupCallback<T>): QueryBuilder<T, R> {
+    pushGroup(this.conditions, "or", build);
+    return this;
+  }
+
+  /**
+   * Exclude rows matching all of the group's conditions.
+   */
+  not(build: FilterGroupCallback<T>): QueryBuilder<T, R> {
+    pushGroup(this.conditions, "not", build);
+    return this;
+  }
+
+  private get conditions(): WhereCondition[] {
     if (!this.queryParams.where) {
       this.queryParams.where = [];
     }
-    this.queryParams.where.push([field, operator, value]);
-    return this;
+    return this.queryParams.where;
   }
 
-  then<TResult1 = Maybe<T[]>, TResult2 = never>(
-    onfulfilled?:
-      | ((value: Maybe<T[]>) => TResult1 | PromiseLike<TResult1>)
-      | undefined
-      | null,
-    onrejected?:
-      | ((reason: any) => TResult2 | PromiseLike<TResult2>)
-      | undefined
-      | null,
-  ) {
-    return this.getPromise().then(onfulfilled, onrejected);
+  fetch(): Promise<Maybe<R[]>> {
+    return this.getPromise();
   }
 
-  catch<TResult = never>(
-    onrejected?:
-      | ((reason: any) => TResult | PromiseLike<TResult>)
-      | undefined
-      | null,
-  ) {
-    return this.getPromise().catch(onrejected);
+  /**
+   * Iterate over every page of the query, following the cursor until the
+   * server runs out of rows. The next cursor is taken from the response's
+   * `next_cursor` when present, otherwise from the `id` of the last row.
+   * Throws if any page request fails.
+   */
+  async *pages(options?: PaginateOptions): AsyncGenerator<R[], void, undefined> {
+    const pageSize = options?.pageSize ?? this.queryParams.limit ?? 100;
+    let remaining = options?.maxItems ?? Infinity;
+    let cursor: string | undefined = this.queryParams.cursor;
+
+    while (remaining > 0) {
+      const limit = Math.min(pageSize, remaining);
+      const params: Record<string, any> = { ...this.queryParams, limit };
+      if (cursor) params.cursor = cursor;
+
+      const result = await this.getPromise(params);
+      if (result.error) {
+        throw result.error;
+      }
+      const rows = result.data ?? [];
+      if (rows.length === 0) return;
+
+      yield rows;
+      remaining -= rows.length;
+
+      if (result.next_cursor === null || rows.length < limit) return;
+      cursor = result.next_cursor ?? (rows[rows.length - 1] as any)?.id;
+      if (!cursor) return;
+    }
   }
 
-  finally(
-    onfinally?: (() => void) | undefined | null,
-  ) {
-    return this.getPromise().finally(onfinally);
+  /**
+   * Iterate over every row of the query across all pages.
+   *
+   * ```typescript
+   * for await (const video of client.videos().paginate({ pageSize: 100 })) {
+   *   console.log(video.id);
+   * }
+   * ```
+   */
+  async *paginate(options?: PaginateOptions): AsyncGenerator<R, void, undefined> {
+    for await (const page of this.pages(options)) {
+      yield* page;
+    }
   }
 
-  fetch(): Promise<Maybe<T[]>> {
-    return this.getPromise();
+  /**
+   * Compute aggregates over the matching rows instead of returning them.
+   * Filters and `.orderBy()` are kept; the selection, cursor and `.limit()`
+   * are ignored, so that the aggregates cover every matching row.
+   *
+   * ```typescript
+   * const totals = await client
+   *   .from("object_storage")
+   *   .select()
+   *   .aggregate(
+   *     { total_size: ["sum", "metadata->>'size'"], files: ["count", "*"] },
+   *     { groupBy: { content_type: "metadata->>'content_type'" } },
+   *   );
+   * // totals.data: { content_type: string; total_size: number; files: number }[]
+   * ```
+   */
+  aggregate<S extends AggregateSpec<T>, G extends GroupBySpec<T> = {}>(
+    spec: S,
+    options?: { groupBy?: G },
+  ): AggregateQueryBuilder<AggregateRow<S, G>> {
+    const { select, cursor, sort, limit, ...queryParams } = this.queryParams;
+    queryParams.aggregate = Object.entries(spec).map(([alias, [fn, column]]) => [fn, column, alias]);
+    if (options?.groupBy) {
+      queryParams.group_by = Object.entries(options.groupBy).map(([alias, column]) => [column, alias]);
+    }
+    const builder = new AggregateQueryBuilder<AggregateRow<S, G>>(
+      this.baseUrl,
+      this.headers,
+      this.resource,
+      queryParams,
+      this.transport,
+    );
+    return this.signal ? builder.abortSignal(this.signal) : builder;
+  }
+
+  /**
+   * Count the matching rows without fetching them.
+   */
+  async count(): Promise<Maybe<number>> {
+    const result = await this.aggregate({ count: ["count", "*"] });
+    if (result.error) {
+      return { data: undefined, error: result.error };
+    }
+    return { data: Number(result.data?.[0]?.count ?? 0), error: undefined };
   }
 
   /**
-   * Fetch a single result. Throws if not exactly one result is returned.
+   * Fetch a single result. Errors with `not_found` if nothing matched, or
+   * `invalid_response` if more than one row came back.
    * Returns { data, error } result type.
    */
-  async single(): Promise<Maybe<T>> {
+  async single(): Promise<Maybe<R>> {
     const result = await this.getPromise();
     if (result.error) {
       return { data: undefined, error: result.error };
@@ -148,12 +499,23 @@ export class QueryBuilder<T> extends RequestBuilderCore<Maybe<T[]>> {
     if (Array.isArray(result.data) && result.data.length === 1) {
       return { data: result.data[0], error: undefined };
     }
+    const code = result.data?.length === 0 ? "not_found" : "invalid_response";
     return {
-      data: undefined, error: { message: "Expected exactly one result" }
+      data: undefined, error: new ZapdosError(code, "Expected exactly one result")
     };
   }
 }
 
+/**
+ * Builder returned by `.aggregate()`. Thenable like `QueryBuilder`, resolving
+ * to one row per group (or a single row when nothing is grouped).
+ */
+export class AggregateQueryBuilder<R> extends RequestBuilderCore<Maybe<R[]>> {
+  fetch(): Promise<Maybe<R[]>> {
+    return this.getPromise();
+  }
+}
+
 /**
  * Builder returned by .from(). This class only exposes a .select() method,
  * enforcing the next step in the chain.
@@ -161,25 +523,30 @@ export class QueryBuilder<T> extends RequestBuilderCore<Maybe<T[]>> {
 export class UnselectedQueryBuilder<T> {
   constructor(
     public baseUrl: string,
-    public headers: Record<string, string>,
-    public resource: string
+    public headers: HeadersSource,
+    public resource: string,
+    public transport: Transport,
   ) { }
 
   /**
-   * Specify which columns to return.
+   * Specify which columns to return. The result rows are narrowed to the
+   * selected columns; with no arguments every column is returned.
    * @param columns The column names to select.
    * @returns The full builder with all query methods.
    */
-  select(...columns: string[]): QueryBuilder<T> {
+  select(): QueryBuilder<T>;
+  select<K extends SelectableColumn<T>>(...columns: K[]): QueryBuilder<T, Selected<T, K>>;
+  select(...columns: string[]): QueryBuilder<T, any> {
     const queryParams = {
       where: [],
       select: columns.length > 0 ? columns : ["*"],
     };
-    return new QueryBuilder<T>(
+    return new QueryBuilder<T, any>(
       this.baseUrl,
       this.headers,
       this.resource,
       queryParams,
+      this.transport,
     );
   }
 }
@@ -0,0 +1,135 @@
+import { ZapdosError } from "./errors";
+import { TransportError, type Transport, type TransportRequest } from "./transport";
+
+export type RetryOptions = {
+  /** Total number of attempts, including the first one. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on every further attempt. Defaults to 500ms. */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay. Defaults to 30s. */
+  maxDelayMs?: number;
+  /**
+   * `"full"` (default) picks each delay uniformly between 0 and the backoff,
+   * `"none"` always waits the full backoff.
+   */
+  jitter?: "full" | "none";
+  /**
+   * HTTP status codes worth retrying. Network errors (no response at all)
+   * are always retried. Defaults to 408, 429, 500, 502, 503 and 504.
+   */
+  retryOn?: number[];
+  /** Wait as long as a 429/503 `Retry-After` header asks, capped by `maxDelayMs`. Defaults to true. */
+  respectRetryAfter?: boolean;
+  /** Called before each retry, e.g. for logging. */
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
+};
+
+export type RetryPolicy = Required<Omit<RetryOptions, "onRetry">> & Pick<RetryOptions, "onRetry">;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  jitter: "full",
+  retryOn: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+/**
+ * Fill in defaults. `false` disables retries entirely.
+ */
+export function resolveRetryPolicy(options?: RetryOptions | false): RetryPolicy {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...options };
+}
+
+/**
+ * Whether a failed attempt should be retried under the given policy.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof ZapdosError) {
+    if (!error.retryable) return false;
+  } else if (!(error instanceof TransportError)) {
+    return false;
+  }
+  if (error.status === undefined) return true;
+  return policy.retryOn.includes(error.status);
+}
+
+/**
+ * Delay before retry number `attempt` (1 for the first retry).
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, error?: unknown): number {
+  const transportError = error instanceof ZapdosError ? error.cause : error;
+  if (policy.respectRetryAfter && transportError instanceof TransportError) {
+    const retryAfter = parseRetryAfter(transportError.headers["retry-after"]);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, policy.maxDelayMs);
+    }
+  }
+  const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return policy.jitter === "full" ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Run `fn` until it succeeds, fails with a non-retryable error, or the
+ * attempts run out. The last error is rethrown. Once `signal` fires, no
+ * further attempt is made and a pending backoff rejects with an `aborted`
+ * error.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw ZapdosError.aborted(signal.reason);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(attempt, policy, error);
+      policy.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Wrap a transport so that every request is retried under `policy`. Only
+ * suitable for requests whose body can be sent again (JSON, strings, Blobs).
+ */
+export function createRetryTransport(transport: Transport, policy: RetryPolicy): Transport {
+  return {
+    request<T>(req: TransportRequest) {
+      return withRetry(() => transport.request<T>(req), policy, req.signal);
+    },
+  };
+}
+
+function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(ZapdosError.aborted(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,313 @@
+/**
+ * Long-lived WebSocket subscription to Zapdos events.
+ *
+ * The connection is reopened with backoff whenever it drops, and a heartbeat
+ * detects connections that died without a close frame. Events are delivered
+ * to typed handlers, optionally filtered by object or job, or consumed with
+ * `for await`.
+ */
+import type { Logger } from "./logger";
+import { getRetryDelay, resolveRetryPolicy, type RetryOptions, type RetryPolicy } from "./retry";
+import type { TokenSource, UpdateMetadataReturnedJSON, WebSocketOptions } from "./types";
+
+/**
+ * An event pushed by Zapdos: the same kinds as the upload event stream.
+ */
+export type ZapdosEvent = NonNullable<UpdateMetadataReturnedJSON["data"]>;
+
+export type ZapdosEventType = ZapdosEvent["type"];
+
+export type ZapdosEventOf<K extends ZapdosEventType> = Extract<ZapdosEvent, { type: K }>;
+
+/**
+ * Narrows the events a handler or iterator receives. All given fields must match.
+ */
+export type EventFilter = {
+  types?: ZapdosEventType[];
+  objectId?: string;
+  jobId?: string;
+};
+
+/**
+ * The subset of the WebSocket API the subscription relies on. Satisfied by
+ * the browser `WebSocket` and by the `ws` package.
+ */
+export interface SocketLike {
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  /** Protocol-level ping, answered with a `pong` event (`ws` package only). */
+  ping?(): void;
+  /** Drops the connection without a closing handshake (`ws` package only). */
+  terminate?(): void;
+  on?(event: "pong", listener: () => void): unknown;
+}
+
+export type SubscriptionOptions = WebSocketOptions & {
+  /**
+   * Backoff between reconnection attempts. Attempts are unlimited unless
+   * `maxAttempts` is set; `false` disables reconnecting.
+   */
+  reconnect?: Pick<RetryOptions, "maxAttempts" | "baseDelayMs" | "maxDelayMs" | "jitter"> | false;
+  /**
+   * How often to check that the connection is alive, in milliseconds. A
+   * connection that stays silent for a whole interval is dropped and
+   * reopened. Defaults to 30s for sockets that can send pings (the `ws`
+   * package); other sockets, like the browser's, have no heartbeat unless
+   * given an interval, and then send `{ "type": "ping" }` messages instead.
+   * `false` disables the heartbeat.
+   */
+  heartbeatInterval?: number | false;
+  /** Called before each reconnection attempt. */
+  onReconnecting?: (info: { attempt: number; delayMs: number }) => void;
+};
+
+export type BrowserListenOptions = SubscriptionOptions & {
+  /** Scoped token authenticating the connection. Defaults to the client's token. */
+  token?: TokenSource;
+  /**
+   * Send the token as the `token` query parameter (default) or as a first
+   * `{ "type": "auth", "token": ... }` message, which keeps it out of URLs
+   * and server logs.
+   */
+  tokenIn?: "url" | "message";
+  /** WebSocket implementation to use. Defaults to the global `WebSocket`. */
+  WebSocket?: new (url: string) => SocketLike & { addEventListener(type: "open", listener: () => void): void };
+};
+
+export type SubscriptionState = "connecting" | "open" | "reconnecting" | "closed";
+
+type Listener = { filter: EventFilter; handler: (event: ZapdosEvent) => void };
+
+function matches(filter: EventFilter, event: ZapdosEvent) {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.objectId !== undefined && event.object_id !== filter.objectId) return false;
+  if (filter.jobId !== undefined && (!("job_id" in event) || event.job_id !== filter.jobId)) return false;
+  return true;
+}
+
+export class ZapdosSubscription implements AsyncIterable<ZapdosEvent> {
+  private socket?: SocketLike;
+  private currentState: SubscriptionState = "connecting";
+  private listeners = new Set<Listener>();
+  private closeWaiters = new Set<() => void>();
+  private attempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  /** Whether anything arrived since the last heartbeat. */
+  private alive = true;
+  private readonly reconnectPolicy?: RetryPolicy;
+
+  constructor(
+    /** Opens a new socket. May be async, e.g. to fetch a fresh token first. */
+    private readonly connect: () => SocketLike | Promise<SocketLike>,
+    private readonly options: SubscriptionOptions = {},
+    private readonly logger?: Logger,
+  ) {
+    this.reconnectPolicy = options.reconnect === false
+      ? undefined
+      : resolveRetryPolicy({ maxAttempts: Infinity, ...options.reconnect });
+    this.open();
+  }
+
+  get state(): SubscriptionState {
+    return this.currentState;
+  }
+
+  /**
+   * Call `handler` for every event of one type. Returns a function that
+   * removes the handler.
+   */
+  on<K extends ZapdosEventType>(type: K, handler: (event: ZapdosEventOf<K>) => void): () => void {
+    return this.subscribe({ types: [type] }, handler as (event: ZapdosEvent) => void);
+  }
+
+  /**
+   * Call `handler` for every event matching `filter`, e.g. all events of
+   * one object or job. Returns a function that removes the handler.
+   */
+  subscribe(filter: EventFilter, handler: (event: ZapdosEvent) => void): () => void {
+    const listener = { filter, handler };
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Iterate over the events matching `filter` until the subscription is
+   * closed or the loop is left.
+   */
+  events(filter: EventFilter = {}): AsyncIterableIterator<ZapdosEvent> {
+    const buffer: ZapdosEvent[] = [];
+    let wake: (() => void) | undefined;
+    let done = this.currentState === "closed";
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+    const unsubscribe = this.subscribe(filter, (event) => {
+      buffer.push(event);
+      notify();
+    });
+    const onClose = () => {
+      done = true;
+      notify();
+    };
+    this.closeWaiters.add(onClose);
+    const finish = () => {
+      done = true;
+      unsubscribe();
+      this.closeWaiters.delete(onClose);
+    };
+
+    return {
+      next: async () => {
+        while (buffer.length === 0 && !done) {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+        if (buffer.length > 0) return { value: buffer.shift()!, done: false };
+        finish();
+        return { value: undefined, done: true };
+      },
+      return: async () => {
+        finish();
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  [Symbol.asyncIterator]() {
+    return this.events();
+  }
+
+  /**
+   * Close the connection for good. Pending iterators finish.
+   */
+  close() {
+    if (this.currentState === "closed") return;
+    this.currentState = "closed";
+    clearTimeout(this.reconnectTimer);
+    this.stopHeartbeat();
+    this.socket?.close();
+    this.closeWaiters.forEach((onClose) => onClose());
+    this.closeWaiters.clear();
+  }
+
+  private async open() {
+    let socket: SocketLike;
+    try {
+      socket = await this.connect();
+    } catch (error) {
+      this.logger?.error("WebSocket connection failed:", error);
+      if (this.currentState !== "closed") this.scheduleReconnect();
+      return;
+    }
+    if (this.currentState === "closed") {
+      // Closed while e.g. a token was being fetched
+      socket.close();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = (event) => {
+      this.logger?.log("WebSocket connected");
+      this.currentState = "open";
+      this.attempt = 0;
+      this.startHeartbeat(socket);
+      this.options.onOpen?.(event);
+    };
+
+    socket.onmessage = (event) => {
+      this.alive = true;
+      let data: any;
+      try {
+        data = JSON.parse(typeof event.data === "string" ? event.data : String(event.data));
+      } catch (error) {
+        this.logger?.error("Failed to parse WebSocket message:", error);
+        return;
+      }
+      try {
+        this.options.onMessage?.(data);
+      } catch (error) {
+        this.logger?.error("Error in onMessage callback:", error);
+      }
+      if (typeof data?.data?.type === "string") this.dispatch(data.data);
+    };
+
+    socket.onerror = (error) => {
+      this.logger?.error("WebSocket error:", error);
+      this.options.onError?.(error);
+    };
+
+    socket.onclose = (event) => {
+      this.logger?.log("WebSocket disconnected:", event?.code, event?.reason);
+      if (this.socket === socket) this.stopHeartbeat();
+      this.options.onClose?.(event);
+      if (this.socket === socket && this.currentState !== "closed") {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private dispatch(event: ZapdosEvent) {
+    for (const listener of [...this.listeners]) {
+      if (!matches(listener.filter, event)) continue;
+      try {
+        listener.handler(event);
+      } catch (error) {
+        this.logger?.error("Error in event handler:", error);
+      }
+    }
+  }
+
+  private scheduleReconnect() {
+    const policy = this.reconnectPolicy;
+    this.attempt++;
+    if (!policy || this.attempt >= policy.maxAttempts) {
+      this.logger?.error("WebSocket closed, not reconnecting");
+      this.close();
+      return;
+    }
+    const delayMs = getRetryDelay(this.attempt, policy);
+    this.currentState = "reconnecting";
+    this.options.onReconnecting?.({ attempt: this.attempt, delayMs });
+    this.reconnectTimer = setTimeout(() => this.open(), delayMs);
+  }
+
+  private startHeartbeat(socket: SocketLike) {
+    // A ping message only proves the connection alive if the server answers
+    // it, so sockets without protocol pings have to opt in
+    const interval = this.options.heartbeatInterval ?? (socket.ping ? 30_000 : false);
+    if (interval === false) return;
+    this.alive = true;
+    socket.on?.("pong", () => (this.alive = true));
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.alive) {
+        this.logger?.log("WebSocket heartbeat missed, reconnecting");
+        // Without a close frame, `terminate` is the only way to fire `onclose` promptly
+        if (socket.terminate) socket.terminate();
+        else socket.close();
+        return;
+      }
+      this.alive = false;
+      try {
+        if (socket.ping) socket.ping();
+        else socket.send(JSON.stringify({ type: "ping" }));
+      } catch (error) {
+        this.logger?.error("WebSocket heartbeat failed:", error);
+      }
+    }, interval);
+  }
+
+  private stopHeartbeat() {
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = undefined;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Building blocks of `syncDirectory()` (Node.js only): walking a directory
+ * with include/exclude patterns, and the manifest mapping local paths to the
+ * objects they were uploaded as.
+ */
+import fs from "fs";
+import path from "path";
+import type { ZapdosError } from "./errors";
+import type { BackendUploadOptions, UploadCallbacksWithFileIndex } from "./types";
+
+export type SyncOptions<M extends object = {}> = {
+  /**
+   * Glob patterns of files to sync, relative to the directory, e.g.
+   * `"videos/**"` or `"*.{mp4,mov}"`. Patterns without a `/` match file
+   * names at any depth. All files by default.
+   */
+  include?: string[];
+  /** Glob patterns of files to leave out, as for `include`. */
+  exclude?: string[];
+  /** Files hashed and uploaded at the same time. Defaults to 4. */
+  concurrency?: number;
+  /**
+   * Where to keep the manifest. Defaults to `.zapdos-manifest.json` in the
+   * directory; `false` keeps none, so every file is hashed on each run.
+   */
+  manifest?: string | false;
+  /** Work out what would be uploaded and deleted without uploading or writing the manifest. */
+  dryRun?: boolean;
+  signal?: AbortSignal;
+  /** Upload callbacks; `file_index` counts the files to upload, in path order. */
+  on?: UploadCallbacksWithFileIndex;
+  /** Further upload options, e.g. `metadata` or `chunked`. */
+  upload?: Omit<BackendUploadOptions<M>, "signal" | "concurrency" | "fileSignals" | "fileTypes" | "fileMetadata">;
+};
+
+/**
+ * Outcome of `syncDirectory()`. Paths are relative to the directory, with
+ * `/` separators.
+ */
+export type SyncResult = {
+  /** New or changed files sent to Zapdos. Without `object_id` in a dry run. */
+  uploaded: { path: string; sha256: string; size: number; object_id?: string }[];
+  /**
+   * Files whose content was already stored, by this or another path. In a
+   * dry run, copies of a file about to be uploaded have no `object_id` yet.
+   */
+  existing: { path: string; sha256: string; object_id?: string }[];
+  /** Files unchanged since the last sync. */
+  unchanged: { path: string; object_id: string }[];
+  /** Files that couldn't be read or uploaded. */
+  failed: { path: string; error: ZapdosError }[];
+  /** Files of the last sync that are gone, with the objects they were uploaded as. */
+  deleted: { path: string; object_id: string }[];
+  /** Path of the manifest written, if any. */
+  manifest?: string;
+};
+
+export type ManifestEntry = {
+  object_id: string;
+  sha256: string;
+  size: number;
+  /** Modification time when hashed; a file with the same size and time isn't hashed again. */
+  mtime_ms: number;
+};
+
+export type SyncManifest = {
+  version: 1;
+  files: Record<string, ManifestEntry>;
+};
+
+export const DEFAULT_MANIFEST_NAME = ".zapdos-manifest.json";
+
+/** Files the client itself writes next to the synced ones. */
+const INTERNAL_FILES = [/\.zapdos-upload\.json$/, /\.zapdos-manifest\.json(\.tmp)?$/, /\.part$/];
+
+/**
+ * Translate a glob pattern into a regular expression over `/`-separated
+ * paths. Supports `**`, `*`, `?` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // `**/` matches any number of directories, a trailing `**` anything
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a relative path is selected by the include and exclude patterns.
+ */
+export function pathFilter(include?: string[], exclude?: string[]) {
+  const compile = (patterns: string[]) => patterns.map((pattern) => ({
+    regexp: globToRegExp(pattern.replace(/^\.\//, "")),
+    basename: !pattern.includes("/"),
+  }));
+  const matches = (patterns: ReturnType<typeof compile>, relative: string) =>
+    patterns.some(({ regexp, basename }) => regexp.test(basename ? path.posix.basename(relative) : relative));
+  const included = include?.length ? compile(include) : undefined;
+  const excluded = compile(exclude ?? []);
+  return (relative: string) =>
+    (!included || matches(included, relative)) && !matches(excluded, relative);
+}
+
+/**
+ * Relative, `/`-separated paths of the files below `dir` passing `filter`,
+ * in sorted order. Symbolic links are not followed.
+ */
+export async function walkDirectory(dir: string, filter: (relative: string) => boolean): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (relativeDir: string) => {
+    const entries = await fs.promises.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await visit(relative);
+      } else if (entry.isFile() && !INTERNAL_FILES.some((internal) => internal.test(entry.name)) && filter(relative)) {
+        files.push(relative);
+      }
+    }
+  };
+  await visit("");
+  return files;
+}
+
+export async function readManifest(file: string): Promise<SyncManifest> {
+  try {
+    const manifest = JSON.parse(await fs.promises.readFile(file, "utf8"));
+    if (manifest?.version === 1 && manifest.files && typeof manifest.files === "object") return manifest;
+  } catch {
+    // Missing or unreadable: start from scratch
+  }
+  return { version: 1, files: {} };
+}
+
+/**
+ * Write the manifest to a temporary file first, so that a crash never
+ * leaves a truncated one.
+ */
+export async function writeManifest(file: string, manifest: SyncManifest) {
+  const temp = `${file}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(manifest, null, 2));
+  await fs.promises.rename(temp, file);
+}
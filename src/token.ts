@@ -0,0 +1,81 @@
+/**
+ * Scoped browser tokens.
+ *
+ * The backend client signs short-lived tokens with its API key; browser
+ * clients attach them to queries, searches, download URL requests and the
+ * WebSocket. The API rejects requests outside a token's scopes or objects.
+ */
+import { ZapdosError } from "./errors";
+
+export type BrowserTokenScope = "query" | "search" | "download" | "listen";
+
+export type BrowserTokenOptions = {
+  scopes: BrowserTokenScope[];
+  /** Restrict the token to these objects. All objects of the organization by default. */
+  objectIds?: string[];
+  /** Lifetime in seconds. Defaults to 15 minutes, at most 24 hours. */
+  ttl?: number;
+};
+
+export type BrowserToken = {
+  token: string;
+  expires_at: string;
+};
+
+export const DEFAULT_TOKEN_TTL = 15 * 60;
+export const MAX_TOKEN_TTL = 24 * 60 * 60;
+
+/** Tokens this close to expiring are refreshed before use. */
+const REFRESH_MARGIN_MS = 30_000;
+
+/**
+ * Expiry of a JWT in milliseconds since the epoch, read without verifying
+ * it. Undefined for tokens without a readable `exp` claim.
+ */
+export function tokenExpiry(token: string): number | undefined {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, "=")));
+    return typeof exp === "number" ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Holds the browser client's current token and refreshes it shortly before
+ * it expires. Concurrent requests share a single refresh.
+ */
+export class TokenManager {
+  private pending?: Promise<string>;
+
+  constructor(
+    private token?: string,
+    private readonly refresh?: () => string | Promise<string>,
+  ) { }
+
+  get configured(): boolean {
+    return this.token !== undefined || this.refresh !== undefined;
+  }
+
+  async get(): Promise<string> {
+    if (this.token && !this.expiresSoon(this.token)) return this.token;
+    if (this.refresh) {
+      this.pending ??= Promise.resolve()
+        .then(() => this.refresh!())
+        .then((token) => (this.token = token))
+        .catch((error) => {
+          throw ZapdosError.from(error, { code: "auth", message: "Token refresh failed" });
+        })
+        .finally(() => (this.pending = undefined));
+      return this.pending;
+    }
+    if (this.token) return this.token;
+    throw new ZapdosError("auth", "No token: pass `token` or `refreshToken` to createBrowserClient()");
+  }
+
+  private expiresSoon(token: string) {
+    const expiry = tokenExpiry(token);
+    return expiry !== undefined && expiry - Date.now() < REFRESH_MARGIN_MS;
+  }
+}
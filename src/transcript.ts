@@ -0,0 +1,248 @@
+/**
+ * Caption and text exporters for video transcriptions.
+ *
+ * Segments are split into cues of at most `maxLines` lines of
+ * `maxLineLength` characters, lasting at most `maxCueDuration`. Cues never
+ * span two segments, so each cue has a single speaker. Segments without word
+ * timings get timings spread over the segment in proportion to word length.
+ */
+import type { Transcription, TranscriptionSegment, TranscriptionWord } from "./types";
+
+export type CaptionOptions = {
+  /** Characters per line. Defaults to 42. */
+  maxLineLength?: number;
+  /** Lines per cue. Defaults to 2. */
+  maxLines?: number;
+  /** Longest a cue may stay on screen, in milliseconds. Defaults to 7000. */
+  maxCueDuration?: number;
+  /**
+   * Highlight words as they are spoken: inline timestamps in WebVTT, one
+   * cue per word with the spoken word underlined in SRT.
+   */
+  karaoke?: boolean;
+};
+
+export type SrtOptions = CaptionOptions & {
+  /** Prefix cues with `Speaker: `. SRT has no speaker markup. Defaults to false. */
+  speakerLabels?: boolean;
+};
+
+export type WebVttOptions = CaptionOptions & {
+  /** Wrap cues in `<v Speaker>` voice tags. Defaults to true. */
+  speakerLabels?: boolean;
+};
+
+export type TextOptions = {
+  /** Prefix text with `Speaker: ` whenever the speaker changes. Defaults to false. */
+  speakerLabels?: boolean;
+};
+
+export type ParagraphOptions = TextOptions & {
+  /** A pause this long starts a new paragraph, in milliseconds. Defaults to 2000. */
+  paragraphGap?: number;
+};
+
+/**
+ * A timed caption: the unit of SRT and WebVTT cues.
+ */
+export type Caption = {
+  start_ms: number;
+  end_ms: number;
+  /** The cue's text, wrapped to `maxLineLength`. */
+  lines: string[];
+  speaker?: string;
+  words: TranscriptionWord[];
+};
+
+const DEFAULT_MAX_LINE_LENGTH = 42;
+const DEFAULT_MAX_LINES = 2;
+const DEFAULT_MAX_CUE_DURATION = 7000;
+
+/**
+ * Split a transcription into timed captions.
+ */
+export function toCaptions(transcription: Transcription, options: CaptionOptions = {}): Caption[] {
+  const maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  const maxCueDuration = options.maxCueDuration ?? DEFAULT_MAX_CUE_DURATION;
+
+  const captions: Caption[] = [];
+  for (const segment of transcription.segments) {
+    let words: TranscriptionWord[] = [];
+    const flush = () => {
+      if (words.length === 0) return;
+      captions.push({
+        start_ms: words[0].start_ms,
+        end_ms: words[words.length - 1].end_ms,
+        lines: wrap(words.map((word) => word.word), maxLineLength),
+        ...(segment.speaker !== undefined && { speaker: segment.speaker }),
+        words,
+      });
+      words = [];
+    };
+    for (const word of segmentWords(segment)) {
+      const next = [...words, word];
+      const tooLong = wrap(next.map((w) => w.word), maxLineLength).length > maxLines;
+      const tooSlow = word.end_ms - (words[0]?.start_ms ?? word.start_ms) > maxCueDuration;
+      if (words.length > 0 && (tooLong || tooSlow)) flush();
+      words.push(word);
+    }
+    flush();
+  }
+  return captions;
+}
+
+/**
+ * Export a transcription as SubRip (`.srt`) subtitles.
+ */
+export function toSRT(transcription: Transcription, options: SrtOptions = {}): string {
+  const blocks: string[] = [];
+  for (const caption of toCaptions(transcription, options)) {
+    const label = options.speakerLabels && caption.speaker ? `${caption.speaker}: ` : "";
+    if (!options.karaoke) {
+      blocks.push(`${srtTime(caption.start_ms)} --> ${srtTime(caption.end_ms)}\n${label}${caption.lines.join("\n")}`);
+      continue;
+    }
+    // One cue per word, each showing the whole caption with that word underlined
+    caption.words.forEach((word, i) => {
+      const end = caption.words[i + 1]?.start_ms ?? caption.end_ms;
+      const text = markLines(caption, (w, j) => (j === i ? `<u>${w.word}</u>` : w.word));
+      blocks.push(`${srtTime(word.start_ms)} --> ${srtTime(end)}\n${label}${text}`);
+    });
+  }
+  return blocks.map((block, i) => `${i + 1}\n${block}\n`).join("\n");
+}
+
+/**
+ * Export a transcription as WebVTT (`.vtt`) captions.
+ */
+export function toWebVTT(transcription: Transcription, options: WebVttOptions = {}): string {
+  const cues = toCaptions(transcription, options).map((caption) => {
+    const text = options.karaoke
+      // The first word shows at the start of the cue; later ones at their own time
+      ? markLines(caption, (w, j) => (j === 0 ? "" : `<${vttTime(w.start_ms)}>`) + escapeVtt(w.word))
+      : caption.lines.map(escapeVtt).join("\n");
+    const voice = (options.speakerLabels ?? true) && caption.speaker ? `<v ${escapeVtt(caption.speaker)}>` : "";
+    return `${vttTime(caption.start_ms)} --> ${vttTime(caption.end_ms)}\n${voice}${text}${voice && "</v>"}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+/**
+ * Export a transcription as plain text, one segment per line.
+ */
+export function toPlainText(transcription: Transcription, options: TextOptions = {}): string {
+  let speaker: string | undefined;
+  return transcription.segments
+    .map((segment) => {
+      const text = segment.text.trim();
+      if (!options.speakerLabels || !segment.speaker || segment.speaker === speaker) return text;
+      speaker = segment.speaker;
+      return `${speaker}: ${text}`;
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Export a transcription as paragraphs separated by blank lines. Segments
+ * are merged until the speaker changes or there is a pause of `paragraphGap`.
+ */
+export function toParagraphs(transcription: Transcription, options: ParagraphOptions = {}): string {
+  const paragraphGap = options.paragraphGap ?? 2000;
+  const paragraphs: { speaker?: string; texts: string[] }[] = [];
+  let previous: TranscriptionSegment | undefined;
+  for (const segment of transcription.segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+    const current = paragraphs[paragraphs.length - 1];
+    if (current && previous && previous.speaker === segment.speaker && segment.start_ms - previous.end_ms < paragraphGap) {
+      current.texts.push(text);
+    } else {
+      paragraphs.push({ speaker: segment.speaker, texts: [text] });
+    }
+    previous = segment;
+  }
+  return paragraphs
+    .map(({ speaker, texts }) => (options.speakerLabels && speaker ? `${speaker}: ` : "") + texts.join(" "))
+    .join("\n\n");
+}
+
+/**
+ * The words of a segment with timings, estimated from the segment's text
+ * when the transcription has none.
+ */
+function segmentWords(segment: TranscriptionSegment): TranscriptionWord[] {
+  const timed = segment.words
+    ?.map((word) => ({ ...word, word: word.word.trim() }))
+    .filter((word) => word.word);
+  if (timed?.length) return timed;
+
+  const texts = segment.text.trim().split(/\s+/).filter(Boolean);
+  const totalLength = texts.reduce((sum, text) => sum + text.length, 0);
+  const duration = segment.end_ms - segment.start_ms;
+  let start = segment.start_ms;
+  return texts.map((word) => {
+    const end = start + Math.round((duration * word.length) / totalLength);
+    const timedWord = { word, start_ms: start, end_ms: end };
+    start = end;
+    return timedWord;
+  });
+}
+
+/**
+ * Greedily wrap words into lines of at most `maxLength` characters. Words
+ * longer than a line get a line of their own.
+ */
+function wrap(words: string[], maxLength: number): string[] {
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Rebuild a caption's lines with each word rendered by `render`, keeping
+ * the line breaks of the plain text.
+ */
+function markLines(caption: Caption, render: (word: TranscriptionWord, index: number) => string): string {
+  let index = 0;
+  return caption.lines
+    .map((line) => {
+      // Lines are consecutive words joined by spaces; words may contain spaces themselves
+      const rendered: string[] = [];
+      for (let length = -1; length < line.length; index++) {
+        length += 1 + caption.words[index].word.length;
+        rendered.push(render(caption.words[index], index));
+      }
+      return rendered.join(" ");
+    })
+    .join("\n");
+}
+
+function escapeVtt(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function timestamp(ms: number, separator: string) {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+function srtTime(ms: number) {
+  return timestamp(ms, ",");
+}
+
+function vttTime(ms: number) {
+  return timestamp(ms, ".");
+}
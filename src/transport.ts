@@ -0,0 +1,394 @@
+import type { AxiosInstance } from "axios";
+
+/**
+ * A single HTTP request issued by the client.
+ *
+ * `body` is sent as JSON when it is a plain object or array. Strings, Blobs,
+ * byte arrays and streams (web `ReadableStream` or Node `Readable`) are sent
+ * as-is.
+ */
+export type TransportRequest = {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string;
+  headers?: Record<string, string>;
+  params?: Record<string, string | number | undefined>;
+  body?: unknown;
+  /**
+   * `"json"` (default) parses the response body; `"stream"` resolves with the
+   * raw body as a web `ReadableStream<Uint8Array>`.
+   */
+  responseType?: "json" | "stream";
+  /** Aborts the request, including reading a streamed response body. */
+  signal?: AbortSignal;
+  onUploadProgress?: (progress: { loaded: number; total?: number }) => void;
+};
+
+export type TransportResponse<T = any> = {
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+};
+
+/**
+ * Sends HTTP requests on behalf of the client. Implementations resolve for
+ * 2xx responses and throw a `TransportError` otherwise.
+ */
+export interface Transport {
+  request<T = any>(req: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Thrown by transports for non-2xx responses (with `status` and the parsed
+ * response body in `data`) and for network failures (without `status`).
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly data?: unknown,
+    public readonly headers: Record<string, string> = {},
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "TransportError";
+  }
+}
+
+export type FetchTransportOptions = {
+  /** fetch implementation to use. Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Abort requests that take longer than this many milliseconds. */
+  timeout?: number;
+};
+
+/**
+ * Default transport, built on the global `fetch` (Node 18+ and browsers).
+ *
+ * Upload progress is reported chunk by chunk for stream bodies. fetch can't
+ * observe other uploads, so Blob bodies (e.g. a browser `File`) waiting for
+ * progress are sent with `XMLHttpRequest` where it exists; elsewhere they
+ * report a single event once the request completes.
+ */
+export function createFetchTransport(options?: FetchTransportOptions): Transport {
+  return {
+    async request<T>(req: TransportRequest): Promise<TransportResponse<T>> {
+      const fetchImpl = options?.fetch ?? globalThis.fetch;
+      const headers: Record<string, string> = { ...req.headers };
+      const { body, total, streamed } = toFetchBody(req, headers);
+      const signal = combineSignals(
+        req.signal,
+        options?.timeout ? AbortSignal.timeout(options.timeout) : undefined,
+      );
+
+      const xhrProgress = typeof XMLHttpRequest !== "undefined" && !options?.fetch && req.responseType !== "stream";
+      if (xhrProgress && req.onUploadProgress && body instanceof Blob) {
+        return sendWithXhr<T>(req, body, headers, signal);
+      }
+
+      let response: Response;
+      try {
+        response = await fetchImpl(withParams(req.url, req.params), {
+          method: req.method,
+          headers,
+          body,
+          signal,
+          // Required by Node's fetch for stream bodies
+          ...(streamed ? { duplex: "half" } : {}),
+        } as RequestInit);
+      } catch (error: any) {
+        throw new TransportError(error?.message || "Network request failed", undefined, undefined, {}, abortCause(req.signal) ?? error);
+      }
+
+      if (body !== undefined && !streamed && total != null) {
+        req.onUploadProgress?.({ loaded: total, total });
+      }
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+      });
+
+      if (!response.ok) {
+        const data = await readJSON(response);
+        throw new TransportError(
+          `Request failed with status code ${response.status}`,
+          response.status,
+          data,
+          responseHeaders,
+        );
+      }
+
+      const data = req.responseType === "stream" ? response.body : await readJSON(response);
+      return { status: response.status, headers: responseHeaders, data: data as T };
+    },
+  };
+}
+
+/**
+ * Transport backed by axios. Pass a configured instance to use custom agents,
+ * proxies, interceptors or timeouts.
+ *
+ * XHR can't stream response bodies, so streamed responses skip axios's XHR
+ * adapter for its fetch adapter in the browser; uploads keep XHR progress.
+ */
+export function createAxiosTransport(instance: AxiosInstance): Transport {
+  return {
+    async request<T>(req: TransportRequest): Promise<TransportResponse<T>> {
+      try {
+        const response = await instance.request({
+          url: req.url,
+          method: req.method,
+          params: req.params,
+          headers: req.headers,
+          data: req.body,
+          responseType: req.responseType === "stream" ? "stream" : "json",
+          adapter: req.responseType === "stream" ? withoutXhr(instance.defaults.adapter) : undefined,
+          signal: req.signal,
+          maxContentLength: Infinity,
+          maxBodyLength: Infinity,
+          onUploadProgress: req.onUploadProgress
+            ? (event) => req.onUploadProgress?.({ loaded: event.loaded, total: event.total })
+            : undefined,
+        });
+        let data = response.data;
+        if (req.responseType === "stream") {
+          data = toResponseStream(data);
+        }
+        return {
+          status: response.status,
+          headers: normalizeHeaders(response.headers),
+          data,
+        };
+      } catch (error: any) {
+        const response = error?.response;
+        throw new TransportError(
+          error?.message || "Request failed",
+          response?.status,
+          response?.data,
+          normalizeHeaders(response?.headers),
+          abortCause(req.signal) ?? error,
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Combine several optional signals into one that aborts as soon as any of
+ * them does, carrying that signal's reason.
+ */
+export function combineSignals(...signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const present = signals.filter((signal): signal is AbortSignal => signal != null);
+  if (present.length <= 1) return present[0];
+  // Drops its listeners once the combined signal is garbage collected
+  if (typeof AbortSignal.any === "function") return AbortSignal.any(present);
+
+  const controller = new AbortController();
+  const listeners = present.map((signal) => () => controller.abort(signal.reason));
+  const aborted = present.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return controller.signal;
+  }
+  present.forEach((signal, i) => signal.addEventListener("abort", listeners[i], { once: true }));
+  // Long-lived signals (e.g. of a whole batch) would otherwise keep a
+  // listener for every request made under them
+  controller.signal.addEventListener("abort", () => {
+    present.forEach((signal, i) => signal.removeEventListener("abort", listeners[i]));
+  }, { once: true });
+  return controller.signal;
+}
+
+/**
+ * Wrap an async iterable of byte chunks (e.g. a Node `Readable`) in a web
+ * `ReadableStream`, optionally observing each chunk as it is read.
+ */
+export function toReadableStream(
+  source: AsyncIterable<Uint8Array>,
+  onChunk?: (chunk: Uint8Array) => void,
+): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      onChunk?.(value);
+      controller.enqueue(value);
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+}
+
+// A signal aborted with a custom reason makes fetch reject with that reason,
+// which would otherwise be indistinguishable from a network failure.
+function abortCause(signal?: AbortSignal) {
+  if (!signal?.aborted) return undefined;
+  const reason = signal.reason;
+  if (reason instanceof Error && (reason.name === "AbortError" || reason.name === "TimeoutError")) {
+    return reason;
+  }
+  return new DOMException("The operation was aborted", "AbortError");
+}
+
+function toFetchBody(req: TransportRequest, headers: Record<string, string>) {
+  const body = req.body;
+  const declared = Number(headers["Content-Length"] ?? headers["content-length"]);
+  const total: number | undefined = Number.isFinite(declared) ? declared : undefined;
+
+  if (body === undefined || body === null) {
+    return { body: undefined, total, streamed: false };
+  }
+  if (typeof Blob !== "undefined" && body instanceof Blob) {
+    return { body: body as BodyInit, total: total ?? body.size, streamed: false };
+  }
+  if (typeof body === "string" || body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return { body: body as BodyInit, total, streamed: false };
+  }
+  if (body instanceof ReadableStream || isAsyncIterable(body)) {
+    const source = body instanceof ReadableStream ? streamIterable(body) : body;
+    let loaded = 0;
+    const stream = toReadableStream(source, (chunk) => {
+      loaded += chunk.byteLength;
+      req.onUploadProgress?.({ loaded, total });
+    });
+    return { body: stream, total, streamed: true };
+  }
+
+  if (!Object.keys(headers).some((key) => key.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = "application/json";
+  }
+  return { body: JSON.stringify(body), total, streamed: false };
+}
+
+async function* streamIterable(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// JSON responses only: XHR can't stream response bodies
+function sendWithXhr<T>(
+  req: TransportRequest,
+  body: Blob,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<TransportResponse<T>> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const fail = (message: string) => {
+      signal?.removeEventListener("abort", abort);
+      reject(new TransportError(message, undefined, undefined, {}, abortCause(req.signal) ?? signal?.reason));
+    };
+
+    xhr.open(req.method, withParams(req.url, req.params));
+    for (const [key, value] of Object.entries(headers)) {
+      // Set by the browser, which refuses it from scripts
+      if (key.toLowerCase() !== "content-length") xhr.setRequestHeader(key, value);
+    }
+    xhr.upload.onprogress = (event) => {
+      req.onUploadProgress?.({ loaded: event.loaded, total: event.lengthComputable ? event.total : body.size });
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", abort);
+      const responseHeaders = parseHeaders(xhr.getAllResponseHeaders());
+      const data = parseJSON(xhr.responseText);
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new TransportError(`Request failed with status code ${xhr.status}`, xhr.status, data, responseHeaders));
+        return;
+      }
+      resolve({ status: xhr.status, headers: responseHeaders, data: data as T });
+    };
+    xhr.onerror = () => fail("Network request failed");
+    xhr.onabort = () => fail("The operation was aborted");
+
+    if (signal?.aborted) {
+      fail("The operation was aborted");
+      return;
+    }
+    signal?.addEventListener("abort", abort, { once: true });
+    xhr.send(body);
+  });
+}
+
+function parseHeaders(raw: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of raw.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) result[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return result;
+}
+
+async function readJSON(response: Response) {
+  return parseJSON(await response.text());
+}
+
+function parseJSON(text: string) {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function withParams(url: string, params?: TransportRequest["params"]) {
+  if (!params) return url;
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.append(key, String(value));
+  }
+  const query = search.toString();
+  if (!query) return url;
+  return url + (url.includes("?") ? "&" : "?") + query;
+}
+
+function normalizeHeaders(headers: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers || typeof headers !== "object") return result;
+  for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
+    if (value != null) result[key.toLowerCase()] = String(value);
+  }
+  return result;
+}
+
+// axios picks the first adapter available in the environment
+function withoutXhr(adapter: AxiosInstance["defaults"]["adapter"]) {
+  if (Array.isArray(adapter)) return adapter.filter((name) => name !== "xhr");
+  return adapter === "xhr" ? "fetch" : adapter;
+}
+
+// Node's http adapter streams a `Readable` and the fetch adapter a web stream;
+// custom adapters may still buffer the whole body.
+function toResponseStream(data: unknown): ReadableStream<Uint8Array> | null {
+  if (data == null || data instanceof ReadableStream) return data ?? null;
+  if (isAsyncIterable(data)) return toReadableStream(data);
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : data instanceof ArrayBuffer
+      ? new Uint8Array(data)
+      : new TextEncoder().encode(typeof data === "string" ? data : JSON.stringify(data));
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array> {
+  return value != null && typeof (value as any)[Symbol.asyncIterator] === "function";
+}
@@ -1,15 +1,56 @@
 import { ReadStream } from "node:fs";
+import type { Readable } from "node:stream";
+import type { ZapdosError } from "./errors";
+import type { RetryOptions } from "./retry";
+import type { Transport } from "./transport";
+import type { SignedUrlCacheOptions } from "./url-cache";
+import type { BatchUploadProgress, UploadQueue } from "./upload-queue";
 
 export interface BaseClientOptions {
   baseUrl?: string;
   verbose?: boolean;
+  /**
+   * HTTP transport used for every request. Defaults to a fetch-based
+   * transport; see `createAxiosTransport()` for an axios adapter.
+   */
+  transport?: Transport;
+  /**
+   * Retry policy for queries, signed-URL calls, uploads (per file) and
+   * downloads. Pass `false` to disable retries.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Caching of signed download URLs by object ID: concurrent lookups are
+   * fetched together and URLs are reused until shortly before they expire.
+   * Pass `false` to fetch new URLs on every call.
+   */
+  urlCache?: SignedUrlCacheOptions | false;
 }
 
 export interface BackendClientOptions extends BaseClientOptions {
   apiKey: string;
+  /**
+   * ID of the API key, as listed by Zapdos next to the key. Required by
+   * `createBrowserToken()`, whose tokens name the key by this ID.
+   */
+  keyId?: string;
 }
 
-export interface BrowserClientOptions extends BaseClientOptions { }
+export interface BrowserClientOptions extends BaseClientOptions {
+  /**
+   * Scoped token from `BackendZapdosClient.createBrowserToken()`, enabling
+   * `from()`, `search()`, `getDownloadUrls()` and `listen()` within its scopes.
+   */
+  token?: string;
+  /** Returns a fresh token, called when there is none yet or it is about to expire. */
+  refreshToken?: () => string | Promise<string>;
+}
+
+/**
+ * A scoped token, or a function returning a fresh one. Functions are called
+ * again whenever a new connection needs a token.
+ */
+export type TokenSource = string | (() => string | Promise<string>);
 
 export type Environment = "browser" | "backend";
 
@@ -18,7 +59,7 @@ export type Environment = "browser" | "backend";
  */
 export type Maybe<T> =
   | { data: T; error?: undefined }
-  | { error: { message: string }; data?: undefined };
+  | { error: ZapdosError; data?: undefined };
 
 export type WebSocketOptions = {
   onOpen?: (event: Event) => void;
@@ -28,22 +69,32 @@ export type WebSocketOptions = {
 };
 
 /**
- * Type for object metadata (not base64, but direct object).
+ * Metadata fields set by Zapdos for every object.
  */
-export interface ObjectMetadata {
+export interface BaseObjectMetadata {
   kind: string;
   size: number;
   file_name: string;
   content_type: string;
+  /** Ids of the objects this one was derived from (e.g. the video of a scene). */
+  parents?: string[];
+  /** Hex SHA-256 of the content, when recorded at upload. Downloads are checked against it. */
+  sha256?: string;
 }
 
+/**
+ * Type for object metadata (not base64, but direct object), including the
+ * user-defined fields `M` attached at upload or with `updateMetadata()`.
+ */
+export type ObjectMetadata<M extends object = {}> = BaseObjectMetadata & M;
+
 /**
  * Type for a single object storage item.
  */
-export interface ObjectStorageItem {
+export interface ObjectStorageItem<M extends object = {}> {
   created_at: string;
   id: string;
-  metadata: ObjectMetadata;
+  metadata: ObjectMetadata<M>;
   org_id: string;
   content?: {};
 }
@@ -72,7 +123,7 @@ export type Transcription = {
   report?: Record<string, any>;
 };
 
-export type VideoObject = ObjectStorageItem & {
+export type VideoObject<M extends object = {}> = ObjectStorageItem<M> & {
   content?: {
     scenes?: {
       object_id: string;
@@ -85,12 +136,19 @@ export type VideoObject = ObjectStorageItem & {
   }
 }
 
+/**
+ * Lifecycle of a job. `completed`, `failed` and `cancelled` are final.
+ */
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export type JobType = "indexing" | "transcription";
+
 /**
  * Type for the job content object.
  */
 export interface JobContent {
   object_id: string;
-  type: string;
+  type: JobType;
 }
 
 /**
@@ -101,7 +159,24 @@ export interface JobItem {
   created_at: string;
   id: string;
   org_id: string;
-  status: string;
+  status: JobStatus;
+}
+
+export type WaitForJobOptions = {
+  /** Give up after this many milliseconds with a `timeout` error. Waits indefinitely by default. */
+  timeout?: number;
+  /** How often to poll the job while no WebSocket event arrives. Defaults to 2000 ms. */
+  pollInterval?: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * Row types of the resources that can be queried with `from()`, for objects
+ * carrying the user-defined metadata `M`.
+ */
+export interface ResourceMap<M extends object = {}> {
+  object_storage: ObjectStorageItem<M>;
+  jobs: JobItem;
 }
 
 /**
@@ -109,13 +184,7 @@ export interface JobItem {
  */
 export type JobsResponse = Maybe<JobItem[]>;
 
-export type GetUploadUrlsResult = {
-  data: string[];
-  error?: undefined
-} | {
-  error: { message: string };
-  data?: undefined
-};
+export type GetUploadUrlsResult = Maybe<string[]>;
 
 export type UpdateMetadataReturnedJSON =
   | { data: { type: "metadata_updated"; object_id: string }; error?: undefined }
@@ -135,10 +204,14 @@ export type JobCallbacks = {
 export type UploadCallbacks = {
   onFailed?: (error: {
     message: string;
+    error: ZapdosError;
   }) => void;
   onStored?: () => void;
   onCompleted?: (data: { object_id: string }) => void;
-  onProgress?: (progress: { value: number }) => void
+  /** `value` is a percentage; `loaded` and `total` are in bytes. */
+  onProgress?: (progress: { value: number; loaded: number; total: number }) => void
+  /** Chunked uploads only: called after every part with the state to persist for resuming. */
+  onUploadStateChange?: (props: { state: MultipartUploadState }) => void;
 } & {
   job?: JobCallbacks
 }
@@ -202,23 +275,142 @@ export function unextendCallbacks<T, Ext extends object>(
   return result;
 }
 
+/**
+ * Contents of a file to upload. Streams other than `ReadStream`s are read
+ * once, so they are only retried part by part in chunked uploads.
+ */
+export type UploadBody = File | Blob | ReadStream | Readable;
+
+/**
+ * A file to upload with the backend client from memory or a stream, e.g. a
+ * Buffer, an S3 read stream, ffmpeg's stdout or an HTTP response.
+ */
+export type UploadSource = {
+  /** File name stored with the object. */
+  name: string;
+  data: Uint8Array | Blob | Readable;
+  /**
+   * Size in bytes. May be omitted for streams: they are then sent with
+   * chunked transfer encoding, or in parts when `chunked` is on.
+   */
+  size?: number;
+};
+
 export type UploadItem = {
   name: string;
-  size: number;
+  /** Size in bytes. May be omitted for streams; the stored size is then the number of bytes sent. */
+  size?: number;
+  /** Detected from the file's leading bytes and name when omitted. */
   content_type?: string;
-  url: string;
-  data: File | ReadStream;
+  /** Derived from `content_type` when omitted. */
+  kind?: string;
+  /** User-defined metadata fields to store with the object. */
+  metadata?: Record<string, unknown>;
+  /** Signed upload URL. Not needed when resuming from `resumeState`. */
+  url?: string;
+  /** The file contents. May be omitted when `reopen` is given, to open streams lazily. */
+  data?: UploadBody;
+  /**
+   * Returns bytes `[start, end)` of `data`, for chunked uploads. Blobs and
+   * Files are sliced automatically, and streams are read part by part.
+   */
+  slice?: (start: number, end: number) => File | Blob | ReadStream;
+  /** State of an interrupted chunked upload to resume. */
+  resumeState?: MultipartUploadState;
+  /** Called with the latest chunked upload state, or `null` once the upload is stored. */
+  onStateChange?: (state: MultipartUploadState | null) => void;
+  /** Opens a fresh copy of `data`, so that one-shot streams can be retried. */
+  reopen?: () => UploadBody;
+  /** Cancels this file only. */
+  signal?: AbortSignal;
 }
 
-export type AxiosUploadItem = {
+export type UploadOptions<M extends object = {}> = {
+  /** Cancels the whole batch. Files still in flight fail with an `aborted` error. */
+  signal?: AbortSignal;
+  /** Per-file signals, by file index, to cancel individual files of a batch. */
+  fileSignals?: (AbortSignal | undefined)[];
+  /** Per-file content type and kind, by file index, overriding detection. */
+  fileTypes?: (FileTypeOverride | undefined)[];
+  /**
+   * User-defined metadata stored with every file of the batch. The fields
+   * set by Zapdos (`file_name`, `size`, `content_type`, `kind`) take precedence.
+   */
+  metadata?: Partial<M>;
+  /** Per-file metadata, by file index, merged over `metadata`. */
+  fileMetadata?: (Partial<M> | undefined)[];
+  /**
+   * Start an indexing job for each stored file. Defaults to true; pass false
+   * to index later with `startIndexing()`. Job callbacks then fire from there.
+   */
+  index?: boolean;
+  /** Send large files in resumable parts. `true` uses the defaults. */
+  chunked?: boolean | ChunkedUploadOptions;
+  /** Maximum number of files transferred at once. Defaults to 4. Ignored when `queue` is given. */
+  concurrency?: number;
+  /** Queue to run the transfers on, e.g. to pause and resume them or share a limit across batches. */
+  queue?: UploadQueue;
+  /** Aggregate progress across the whole batch, alongside the per-file `onProgress`. */
+  onBatchProgress?: (progress: BatchUploadProgress) => void;
+}
+
+export type FileTypeOverride = {
+  content_type?: string;
+  kind?: string;
+}
+
+export type ChunkedUploadOptions = {
+  /** Size of each part in bytes. Defaults to 8 MiB. */
+  partSize?: number;
+  /** Files smaller than this are sent in a single request. Defaults to `partSize`. */
+  threshold?: number;
+  /** Retry policy for each part. Defaults to the client's policy. */
+  retry?: RetryOptions | false;
+}
+
+export type BackendChunkedUploadOptions = ChunkedUploadOptions & {
+  /**
+   * Where to persist the resumable state of a file. Defaults to
+   * `<file>.zapdos-upload.json`; the file is removed once the upload is
+   * stored. `false` disables persistence.
+   */
+  stateFile?: ((filePath: string) => string) | false;
+}
+
+export type BackendUploadOptions<M extends object = {}> = Omit<UploadOptions<M>, "chunked"> & {
+  chunked?: boolean | BackendChunkedUploadOptions;
+}
+
+/**
+ * Serializable progress of a chunked upload. Persist it (e.g. in
+ * localStorage) to resume the upload after a reload or a crash.
+ */
+export type MultipartUploadState = {
+  object_id: string;
+  token: string;
+  upload_id: string;
+  file_name: string;
+  /** Bytes of the whole file; for streams of unknown size, the bytes sent so far. */
+  size: number;
+  part_size: number;
+  parts: { part_number: number; etag: string; size: number }[];
+}
+
+export type SignedUploadItem = {
   index: number;
   signedUrl: string;
-  data: ReadStream | File;
+  data?: UploadBody;
+  reopen?: () => UploadBody;
+  slice?: (start: number, end: number) => File | Blob | ReadStream;
+  resumeState?: MultipartUploadState;
+  onStateChange?: (state: MultipartUploadState | null) => void;
+  signal?: AbortSignal;
   token: string;
   object_id: string;
-  metadata: {
+  metadata: Record<string, unknown> & {
     file_name: string,
-    size: number,
+    /** Unknown for streams until they have been sent. */
+    size?: number,
     content_type: string,
     kind: string,
   }
@@ -226,7 +418,7 @@ export type AxiosUploadItem = {
 }
 
 
-export type SearchResultItem = {
+export type SceneSearchResult = {
   id: string;
   type: "scene";
   score: number;
@@ -240,3 +432,105 @@ export type SearchResultItem = {
   };
 };
 
+export type TranscriptSearchResult = {
+  id: string;
+  type: "transcript";
+  score: number;
+  metadata: {
+    end_ms: number;
+    object_id: string;
+    object_original_name: string;
+    start_ms: number;
+    text: string;
+    speaker?: string;
+  };
+};
+
+export type ImageSearchResult = {
+  id: string;
+  type: "image";
+  score: number;
+  metadata: {
+    object_id: string;
+    object_original_name: string;
+  };
+};
+
+/**
+ * A search hit, discriminated by `type`.
+ */
+export type SearchResultItem = SceneSearchResult | TranscriptSearchResult | ImageSearchResult;
+
+export type SearchResultType = SearchResultItem["type"];
+
+/**
+ * Inclusive bounds; either side may be omitted.
+ */
+export type Range<T> = { gte?: T; lte?: T };
+
+export type SearchOptions = {
+  limit?: number;
+  /** Search within these objects only. */
+  object_ids?: string[];
+  /** Search within a single video. */
+  video_id?: string;
+  /** `next_cursor` of the previous page. */
+  cursor?: string;
+  /** Drop results scoring below this. */
+  minScore?: number;
+  /** Result types to return. All types by default. */
+  types?: SearchResultType[];
+  /** Bounds on where matches start within their video, in milliseconds. */
+  start_ms?: Range<number>;
+  /** Bounds on where matches end within their video, in milliseconds. */
+  end_ms?: Range<number>;
+  /** Bounds on when the matched objects were uploaded. */
+  uploadedAt?: Range<string | Date>;
+  /** `"video"` returns one entry per video with its matches, ranked by the best one. */
+  groupBy?: "video";
+  /** Fields to add to each result, fetched in batches after the search. */
+  hydrate?: SearchHydration[];
+  signal?: AbortSignal;
+};
+
+export type SearchHydration = keyof SearchHydrationFields;
+
+export type SearchHydrationFields<M extends object = {}> = {
+  /** The video a match belongs to. Null for image results and deleted videos. */
+  video: VideoObject<M> | null;
+  /** Signed URL of the scene's image, or of the image itself for image results. */
+  thumbnailUrl: string | null;
+  /** Signed URL of the video a match belongs to. Null for image results. */
+  videoUrl: string | null;
+};
+
+/**
+ * A search hit with the fields `H` requested through `hydrate`.
+ */
+export type HydratedSearchResultItem<M extends object = {}, H extends SearchHydration = SearchHydration> =
+  SearchResultItem & Pick<SearchHydrationFields<M>, H>;
+
+export type SearchResults<T = SearchResultItem> = {
+  items: T[];
+  /** Pass as `cursor` to get the next page; absent on the last page. */
+  next_cursor?: string;
+  /** When the hydrated signed URLs expire. */
+  urls_expires_at?: string;
+};
+
+export type VideoSearchGroup<T = SearchResultItem> = {
+  object_id: string;
+  object_original_name: string;
+  /** Score of the best match. */
+  score: number;
+  /** Matches within this video, best first. */
+  items: T[];
+};
+
+export type GroupedSearchResults<T = SearchResultItem> = {
+  videos: VideoSearchGroup<T>[];
+  /** Pass as `cursor` to get the next page; absent on the last page. */
+  next_cursor?: string;
+  /** When the hydrated signed URLs expire. */
+  urls_expires_at?: string;
+};
@@ -0,0 +1,168 @@
+import { ZapdosError } from "./errors";
+
+/**
+ * Runs upload tasks with a concurrency limit. Create one yourself and pass it
+ * as the `queue` upload option to pause and resume a batch, or to share one
+ * limit across several batches.
+ *
+ * Pausing stops new files from starting; files already in flight finish
+ * their current request (for chunked uploads, their current part).
+ */
+export class UploadQueue {
+  public readonly concurrency: number;
+  private active = 0;
+  private isPaused = false;
+  private waiting: (() => void)[] = [];
+  private resumeWaiters: (() => void)[] = [];
+
+  constructor(options?: { concurrency?: number }) {
+    this.concurrency = Math.max(1, options?.concurrency ?? 4);
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  /** Number of tasks currently running. */
+  get running(): number {
+    return this.active;
+  }
+
+  /** Number of tasks waiting for a slot. */
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  pause() {
+    this.isPaused = true;
+  }
+
+  resume() {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach((wake) => wake());
+    this.drain();
+  }
+
+  /**
+   * Resolves immediately while running, or once `resume()` is called.
+   */
+  whenRunning(): Promise<void> {
+    if (!this.isPaused) return Promise.resolve();
+    return new Promise((resolve) => this.resumeWaiters.push(resolve));
+  }
+
+  /**
+   * Run `task` once a slot is free and the queue is not paused. Rejects with
+   * an `aborted` error if `signal` fires while the task is still waiting.
+   */
+  async run<T>(task: () => Promise<T>, options?: { signal?: AbortSignal }): Promise<T> {
+    const signal = options?.signal;
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(ZapdosError.aborted(signal.reason));
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((waiter) => waiter !== start);
+        reject(ZapdosError.aborted(signal!.reason));
+      };
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(start);
+      this.drain();
+    });
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  private drain() {
+    while (!this.isPaused && this.active < this.concurrency && this.waiting.length > 0) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+}
+
+/**
+ * Aggregate progress of a batch upload.
+ */
+export type BatchUploadProgress = {
+  /** Bytes sent so far across all files. */
+  loaded: number;
+  /** Total bytes of all files in the batch. */
+  total: number;
+  /** Throughput over the last few seconds, in bytes per second. */
+  bytesPerSecond: number;
+  /** Estimated time left in milliseconds, or undefined until there is a throughput to go by. */
+  eta_ms?: number;
+  files: {
+    total: number;
+    completed: number;
+    failed: number;
+  };
+};
+
+const SPEED_WINDOW_MS = 5000;
+
+/**
+ * Tracks bytes sent per file and derives batch-wide throughput and ETA.
+ */
+export class BatchProgressTracker {
+  private loadedByFile = new Map<number, number>();
+  private samples: { time: number; loaded: number }[] = [];
+  private completed = 0;
+  private failed = 0;
+
+  constructor(
+    private readonly total: number,
+    private readonly fileCount: number,
+    private readonly onProgress?: (progress: BatchUploadProgress) => void,
+  ) { }
+
+  update(fileIndex: number, loaded: number) {
+    this.loadedByFile.set(fileIndex, loaded);
+    this.emit();
+  }
+
+  complete(fileIndex: number, size: number) {
+    this.completed++;
+    this.loadedByFile.set(fileIndex, size);
+    this.emit();
+  }
+
+  fail() {
+    this.failed++;
+    this.emit();
+  }
+
+  private emit() {
+    if (!this.onProgress) return;
+    let loaded = 0;
+    this.loadedByFile.forEach((value) => (loaded += value));
+
+    const now = Date.now();
+    this.samples.push({ time: now, loaded });
+    while (this.samples.length > 1 && now - this.samples[0].time > SPEED_WINDOW_MS) {
+      this.samples.shift();
+    }
+    const first = this.samples[0];
+    const elapsed = (now - first.time) / 1000;
+    const bytesPerSecond = elapsed > 0 ? Math.max(0, (loaded - first.loaded) / elapsed) : 0;
+    const remaining = Math.max(0, this.total - loaded);
+
+    this.onProgress({
+      loaded,
+      total: this.total,
+      bytesPerSecond,
+      eta_ms: remaining === 0 ? 0 : bytesPerSecond > 0 ? (remaining / bytesPerSecond) * 1000 : undefined,
+      files: { total: this.fileCount, completed: this.completed, failed: this.failed },
+    });
+  }
+}
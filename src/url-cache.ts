@@ -0,0 +1,182 @@
+/**
+ * Cache of signed download URLs, keyed by object ID.
+ *
+ * Lookups that miss are collected for a moment and fetched together, so a
+ * page asking for hundreds of thumbnails one by one makes a single
+ * `/v1/signed-url/get` call. URLs close to `expires_at` count as missing and
+ * are fetched again.
+ */
+import { ZapdosError } from "./errors";
+import type { Maybe } from "./types";
+
+export type SignedUrl = {
+  url: string;
+  expires_at: string;
+};
+
+/**
+ * Where cached URLs are kept. Implement it over e.g. Redis to share the cache
+ * between processes; entries are worthless after their `expires_at`.
+ */
+export interface SignedUrlStore {
+  get(id: string): SignedUrl | undefined | Promise<SignedUrl | undefined>;
+  set(id: string, entry: SignedUrl): void | Promise<void>;
+  delete(id: string): void | Promise<void>;
+}
+
+/**
+ * The default store: an in-memory map dropping its oldest entries beyond
+ * `maxEntries`.
+ */
+export class MemorySignedUrlStore implements SignedUrlStore {
+  private entries = new Map<string, SignedUrl>();
+  private readonly maxEntries: number;
+
+  constructor(options?: { maxEntries?: number }) {
+    this.maxEntries = options?.maxEntries ?? 10_000;
+  }
+
+  get(id: string) {
+    return this.entries.get(id);
+  }
+
+  set(id: string, entry: SignedUrl) {
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(id: string) {
+    this.entries.delete(id);
+  }
+}
+
+export type SignedUrlCacheOptions = {
+  /** Defaults to a `MemorySignedUrlStore`. */
+  store?: SignedUrlStore;
+  /** URLs expiring within this many milliseconds are fetched again. Defaults to 60s. */
+  refreshBeforeMs?: number;
+  /** How long to collect lookups before fetching them together, in milliseconds. Defaults to 0. */
+  batchDelayMs?: number;
+  /** Most IDs per request. Defaults to 100. */
+  maxBatchSize?: number;
+};
+
+type DownloadUrls = { urls: Record<string, string>; expires_at: string };
+
+type Pending = {
+  resolve: (entry: SignedUrl | undefined) => void;
+  reject: (error: unknown) => void;
+};
+
+export class SignedUrlCache {
+  private readonly store: SignedUrlStore;
+  private readonly refreshBeforeMs: number;
+  private readonly batchDelayMs: number;
+  private readonly maxBatchSize: number;
+  /** Lookups waiting for the next batch. */
+  private queued = new Map<string, Pending>();
+  /** Lookups of queued or in-flight batches, shared by concurrent callers. */
+  private loading = new Map<string, Promise<SignedUrl | undefined>>();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    /** Fetches fresh URLs, i.e. calls `/v1/signed-url/get`. */
+    private readonly fetchUrls: (ids: string[]) => Promise<Maybe<DownloadUrls>>,
+    options?: SignedUrlCacheOptions,
+  ) {
+    this.store = options?.store ?? new MemorySignedUrlStore();
+    this.refreshBeforeMs = options?.refreshBeforeMs ?? 60_000;
+    this.batchDelayMs = options?.batchDelayMs ?? 0;
+    this.maxBatchSize = Math.max(1, options?.maxBatchSize ?? 100);
+  }
+
+  /**
+   * Signed URLs for `ids`, from the cache where still fresh. IDs without a
+   * URL are left out of `urls`; `expires_at` is the earliest expiry.
+   */
+  async getMany(ids: string[], options?: { signal?: AbortSignal }): Promise<Maybe<DownloadUrls>> {
+    const signal = options?.signal;
+    try {
+      if (signal?.aborted) throw ZapdosError.aborted(signal.reason);
+      const unique = [...new Set(ids)];
+      // Other callers may share the batch, so a signal only stops waiting for it
+      const entries = await whileNotAborted(Promise.all(unique.map((id) => this.load(id))), signal);
+      const urls: Record<string, string> = {};
+      let expires_at = "";
+      unique.forEach((id, i) => {
+        const entry = entries[i];
+        if (!entry) return;
+        urls[id] = entry.url;
+        if (!expires_at || Date.parse(entry.expires_at) < Date.parse(expires_at)) expires_at = entry.expires_at;
+      });
+      return { data: { urls, expires_at } };
+    } catch (error) {
+      return { error: ZapdosError.from(error, { message: "Failed to get download URLs" }) };
+    }
+  }
+
+  /**
+   * Forget the URLs of `ids`, e.g. after their objects were deleted.
+   */
+  async invalidate(ids: string[]) {
+    await Promise.all(ids.map((id) => this.store.delete(id)));
+  }
+
+  private async load(id: string): Promise<SignedUrl | undefined> {
+    const pending = this.loading.get(id);
+    if (pending) return pending;
+    const cached = await this.store.get(id);
+    if (cached && Date.parse(cached.expires_at) - Date.now() > this.refreshBeforeMs) return cached;
+    // Another caller may have queued it while the store was read
+    return this.loading.get(id) ?? this.enqueue(id);
+  }
+
+  private enqueue(id: string) {
+    const promise = new Promise<SignedUrl | undefined>((resolve, reject) => {
+      this.queued.set(id, { resolve, reject });
+    });
+    this.loading.set(id, promise);
+    this.timer ??= setTimeout(() => this.flush(), this.batchDelayMs);
+    return promise;
+  }
+
+  private flush() {
+    this.timer = undefined;
+    const queued = [...this.queued];
+    this.queued = new Map();
+    for (let i = 0; i < queued.length; i += this.maxBatchSize) {
+      this.fetchBatch(queued.slice(i, i + this.maxBatchSize));
+    }
+  }
+
+  private async fetchBatch(batch: [string, Pending][]) {
+    try {
+      const result = await this.fetchUrls(batch.map(([id]) => id));
+      if (result.error) throw result.error;
+      const { urls, expires_at } = result.data;
+      await Promise.all(batch.map(async ([id, pending]) => {
+        const entry = urls[id] ? { url: urls[id], expires_at } : undefined;
+        // A store failing to save is no reason to fail the lookup
+        if (entry) await Promise.resolve(this.store.set(id, entry)).catch(() => { });
+        pending.resolve(entry);
+      }));
+    } catch (error) {
+      batch.forEach(([, pending]) => pending.reject(error));
+    } finally {
+      batch.forEach(([id]) => this.loading.delete(id));
+    }
+  }
+}
+
+function whileNotAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(ZapdosError.aborted(signal.reason));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
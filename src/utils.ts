@@ -1,6 +1,9 @@
-import axios from "axios";
-import { AxiosUploadItem, unextendCallbacks, UpdateMetadataReturnedJSON, UploadCallbacks, UploadCallbacksWithFileIndex } from "./types";
-import { ReadStream } from "fs";
+import { ZapdosError } from "./errors";
+import { uploadMultipart } from "./multipart";
+import { BatchProgressTracker, UploadQueue, type BatchUploadProgress } from "./upload-queue";
+import { resolveRetryPolicy, withRetry, type RetryPolicy } from "./retry";
+import { combineSignals, type Transport } from "./transport";
+import { SignedUploadItem, unextendCallbacks, UpdateMetadataReturnedJSON, UploadBody, UploadCallbacks, UploadCallbacksWithFileIndex } from "./types";
 
 /**
  * Async generator to parse a ReadableStream of NDJSON and yield each JSON object.
@@ -63,44 +66,60 @@ export function extractCustomParams(
 }
 
 
-export async function axiosUpload({
+export async function uploadToSignedUrl({
+  transport,
   url,
   method = "POST",
   file,
+  size,
+  signal,
+  reopen,
+  retry,
   headers = {},
   callbacks
 }: {
+  transport: Transport;
   url: string;
   method?: "POST" | "PUT";
-  file: ReadStream | File;
+  file: UploadBody;
+  /** Size of `file` in bytes, for progress when the transport can't tell. */
+  size?: number;
+  /** Provides a fresh body for retries when `file` is a one-shot stream. */
+  reopen?: () => UploadBody;
+  retry?: RetryPolicy;
   headers?: Record<string, string>;
   callbacks?: UploadCallbacks;
+  signal?: AbortSignal;
 }) {
+  // A consumed stream can't be sent twice, so only retry replayable bodies.
+  const replayable = reopen != null || (typeof Blob !== "undefined" && file instanceof Blob);
+  const policy = retry && replayable ? retry : resolveRetryPolicy(false);
   try {
-    const response = await axios({
+    const response = await withRetry((attempt) => transport.request({
       url,
       method,
-      data: file,
+      body: attempt === 1 || !reopen ? file : reopen(),
       headers,
-      maxContentLength: Infinity,
-      maxBodyLength: Infinity,
+      signal,
       onUploadProgress: (progressEvent) => {
-        const value = progressEvent.total
-          ? Math.round((progressEvent.loaded / progressEvent.total) * 100)
+        const total = progressEvent.total ?? size ?? 0;
+        const value = total
+          ? Math.round((progressEvent.loaded / total) * 100)
           : 0;
-        callbacks?.onProgress?.({ value });
+        callbacks?.onProgress?.({ value, loaded: progressEvent.loaded, total });
       },
-    });
+    }), policy, signal);
     callbacks?.onStored?.();
-    return response.data as {
-      data: {}
+    // Signed URLs usually answer with an empty body
+    return {
+      data: (response.data ?? {}) as {},
+      error: undefined,
     };
-  } catch (error: any) {
-    callbacks?.onFailed?.({ message: error.message || "Upload failed" });
+  } catch (error: unknown) {
+    const zapdosError = ZapdosError.from(error, { code: "upload_failed", message: "Upload failed" });
+    callbacks?.onFailed?.({ message: zapdosError.message, error: zapdosError });
     return {
-      error: {
-        message: error.message || "Axios Upload failed",
-      }
+      error: zapdosError
     }
   }
 }
@@ -133,39 +152,200 @@ export function prepareMinimalCallbacks(callbacks: UploadCallbacksWithFileIndex,
 type Result = {
   data: {
     file_index: number;
+    object_id: string;
   };
   error?: undefined;
 } | {
   data?: undefined;
   error: {
     file_index: number;
+    message: string;
+    error: ZapdosError;
   };
 }
 
+/**
+ * Resolved chunked upload settings for a batch.
+ */
+export type ChunkedUploadConfig = {
+  /** Whether files at or above `threshold` are chunked. Resumed files always are. */
+  enabled: boolean;
+  partSize: number;
+  threshold: number;
+  retry: RetryPolicy;
+};
+
+function readPartOf(item: SignedUploadItem) {
+  if (item.slice) return item.slice;
+  const data = item.data ?? item.reopen?.();
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    return (start: number, end: number) => data.slice(start, end);
+  }
+  if (data && Symbol.asyncIterator in data) {
+    return sequentialReader(data as AsyncIterable<Uint8Array>);
+  }
+  throw new ZapdosError("validation", `Cannot read ${item.metadata.file_name} in parts`);
+}
+
+/**
+ * Reads a one-shot stream part by part, in order. The last part read is
+ * kept, so that retrying it doesn't need the stream to rewind.
+ */
+export function sequentialReader(source: AsyncIterable<Uint8Array>) {
+  const iterator = source[Symbol.asyncIterator]();
+  let buffered: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  let position = 0;
+  let last: { start: number; end: number; bytes: Uint8Array } | undefined;
+
+  return async (start: number, end: number): Promise<Uint8Array> => {
+    if (last && last.start === start && last.end >= end) return last.bytes.subarray(0, end - start);
+    if (start !== position) {
+      throw new ZapdosError("validation", `Streams are read in order: expected bytes from ${position}, got ${start}`);
+    }
+    while (bufferedBytes < end - start) {
+      const { value, done } = await iterator.next();
+      if (done) break;
+      const chunk = typeof value === "string" ? new TextEncoder().encode(value) : value;
+      buffered.push(chunk);
+      bufferedBytes += chunk.byteLength;
+    }
+    const joined = concatBytes(buffered, bufferedBytes);
+    const bytes = joined.subarray(0, end - start);
+    buffered = bytes.byteLength < joined.byteLength ? [joined.subarray(bytes.byteLength)] : [];
+    bufferedBytes = joined.byteLength - bytes.byteLength;
+    position = start + bytes.byteLength;
+    last = { start, end, bytes };
+    return bytes;
+  };
+}
+
+function concatBytes(chunks: Uint8Array[], length: number) {
+  if (chunks.length === 1) return chunks[0];
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
 /**
  * Common batch upload handler for both browser and backend clients
  */
 export async function batchUpload(opts: {
   baseUrl: string;
+  transport: Transport;
+  retry?: RetryPolicy;
   authHeader?: Record<string, string>;
-  items: AxiosUploadItem[];
+  items: SignedUploadItem[];
   callbacks?: UploadCallbacksWithFileIndex;
+  signal?: AbortSignal;
+  chunked?: ChunkedUploadConfig;
+  queue?: UploadQueue;
+  onBatchProgress?: (progress: BatchUploadProgress) => void;
+  /** Whether to start an indexing job for each stored file. Defaults to true. */
+  index?: boolean;
 }) {
+  const queue = opts.queue ?? new UploadQueue();
+  const tracker = new BatchProgressTracker(
+    opts.items.reduce((sum, item) => sum + (item.metadata.size ?? 0), 0),
+    opts.items.length,
+    opts.onBatchProgress,
+  );
   const uploadPromises = opts.items.map((item) =>
     new Promise<Result>(async (resolve) => {
-      let minimumCallbacks: UploadCallbacks | undefined = undefined;
-      if (opts.callbacks) {
-        minimumCallbacks = prepareMinimalCallbacks(opts.callbacks, item.index, resolve);
-      }
+      let settled = false;
+      const settle = (result: Result) => {
+        settled = true;
+        resolve(result);
+      };
+      const fileCallbacks = prepareMinimalCallbacks(opts.callbacks ?? {}, item.index, settle)!;
+      const fail = (error: ZapdosError) => {
+        if (!settled) callbacks.onFailed?.({ message: error.message, error });
+      };
+      const signal = combineSignals(opts.signal, item.signal);
+      let sent = 0;
+      const callbacks: UploadCallbacks = {
+        ...fileCallbacks,
+        onProgress(progress) {
+          sent = progress.loaded;
+          tracker.update(item.index, progress.loaded);
+          fileCallbacks.onProgress?.(progress);
+        },
+        onCompleted(args) {
+          if (!settled) tracker.complete(item.index, item.metadata.size ?? sent);
+          fileCallbacks.onCompleted?.(args);
+        },
+        onFailed(args) {
+          if (!settled) tracker.fail();
+          fileCallbacks.onFailed?.(args);
+        },
+      };
+
+      const size = item.metadata.size;
+      // Streams of unknown size may be large, so they go in parts whenever chunking is on
+      const chunked = opts.chunked && (
+        item.resumeState || (opts.chunked.enabled && (size === undefined || size >= opts.chunked.threshold))
+      ) ? opts.chunked : undefined;
 
-      // Uploading to signed url just returns null
-      const _ = await axiosUpload({
-        url: item.signedUrl,
-        method: 'PUT',
-        file: item.data,
-        headers: opts.authHeader,
-        callbacks: minimumCallbacks,
+      // Only the transfer itself holds a queue slot, not the metadata update
+      // and indexing events that follow.
+      const uploaded = await queue.run(async () => {
+        if (!chunked) {
+          // Uploading to signed url just returns null
+          return uploadToSignedUrl({
+            transport: opts.transport,
+            url: item.signedUrl,
+            method: 'PUT',
+            size,
+            // Streams are opened only once the file gets a slot
+            file: item.data ?? item.reopen!(),
+            reopen: item.reopen,
+            retry: opts.retry,
+            headers: opts.authHeader,
+            callbacks,
+            signal,
+          });
+        }
+
+        let readPart;
+        try {
+          readPart = readPartOf(item);
+        } catch (error) {
+          const zapdosError = ZapdosError.from(error);
+          callbacks.onFailed?.({ message: zapdosError.message, error: zapdosError });
+          return { error: zapdosError };
+        }
+        const result = await uploadMultipart({
+          transport: opts.transport,
+          baseUrl: opts.baseUrl,
+          object_id: item.object_id,
+          token: item.token,
+          file_name: item.metadata.file_name,
+          size,
+          partSize: chunked.partSize,
+          readPart,
+          state: item.resumeState,
+          retry: chunked.retry,
+          signal,
+          callbacks,
+          onStateChange: item.onStateChange,
+          whenRunning: () => queue.whenRunning(),
+        });
+        if (!result.error) item.onStateChange?.(null);
+        return result;
+      }, { signal }).catch((error) => {
+        // e.g. cancelled while waiting for a slot
+        const zapdosError = ZapdosError.from(error);
+        callbacks.onFailed?.({ message: zapdosError.message, error: zapdosError });
+        return { error: zapdosError };
       });
+      // onFailed has already settled this file
+      if (uploaded.error) return;
+      // Record how much of a stream of unknown size was sent
+      item.metadata.size ??= uploaded.data && "size" in uploaded.data ? uploaded.data.size : sent;
 
       // Trigger updating metadata & indexing job
       (async () => {
@@ -173,14 +353,22 @@ export async function batchUpload(opts: {
           "X-Zapdos-Token": item.token,
           "Content-Type": "application/json",
         };
-        const stream = await updateObjectMetadata({
-          url: `${opts.baseUrl}/v1/storage/${item.object_id}`,
-          headers,
-          metadata: item.metadata,
-        });
+        try {
+          const stream = await updateObjectMetadata({
+            transport: opts.transport,
+            url: `${opts.baseUrl}/v1/storage/${item.object_id}`,
+            headers,
+            metadata: item.metadata,
+            createIndexingJob: opts.index,
+            signal,
+          });
 
-        if (stream) {
-          handleStream(stream, minimumCallbacks);
+          if (stream) {
+            await handleStream(stream, callbacks);
+          }
+          fail(new ZapdosError("invalid_response", "Metadata update finished without confirmation"));
+        } catch (error) {
+          fail(ZapdosError.from(error, { code: "upload_failed", message: "Metadata update failed" }));
         }
       })();
     })
@@ -191,6 +379,12 @@ export async function batchUpload(opts: {
   return results.toSorted((a, b) => (a?.data || a.error).file_index - (b?.data || b.error).file_index);
 }
 
+export function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) chunks.push(values.slice(i, i + size));
+  return chunks;
+}
+
 export function parseSignedUrl(signedUrl: string) {
   const { params, cleanedUrl } = extractCustomParams(signedUrl, [
     "X-Zapdos-Obj-Id",
@@ -206,33 +400,40 @@ export function parseSignedUrl(signedUrl: string) {
 }
 
 
-async function updateObjectMetadata(opts: {
+/**
+ * PATCH an object's metadata. Resolves to the NDJSON event stream of the
+ * update (and of the indexing job, if one is created).
+ */
+export async function updateObjectMetadata(opts: {
+  transport: Transport;
   url: string;
   headers?: Record<string, string>;
   metadata: Record<string, any>;
+  /** Defaults to true. */
+  createIndexingJob?: boolean;
+  signal?: AbortSignal;
 }) {
-  const response = await fetch(opts.url, {
+  const response = await opts.transport.request<ReadableStream<Uint8Array> | null>({
+    url: opts.url,
     method: "PATCH",
     headers: opts.headers,
-    // FLAGS
-    // TODO: Allow setting create_indexing_job to false
-    // User would have to manually triggering indexing job later
-    // This means decoupling the indexing job logic from metadata update route in the backend
-    // Currently the backend always creates an indexing job when metadata is updated
-    // Only that the route returns immediately and the job is processed in the background
-    body: JSON.stringify({
+    signal: opts.signal,
+    responseType: "stream",
+    // The route returns once the metadata is updated; the indexing job, if
+    // any, is processed in the background and reported on the same stream.
+    body: {
       metadata: opts.metadata,
-      create_indexing_job: true,
-    }),
+      create_indexing_job: opts.createIndexingJob ?? true,
+    },
   });
-  if (!response.body) return;
+  if (!response.data) return;
 
-  const stream = parseNDJSONStream(response.body) as AsyncGenerator<UpdateMetadataReturnedJSON, void, unknown>;
+  const stream = parseNDJSONStream(response.data) as AsyncGenerator<UpdateMetadataReturnedJSON, void, unknown>;
   return stream;
 }
 
 
-async function handleStream(stream: AsyncGenerator<UpdateMetadataReturnedJSON, void, unknown>, on?: UploadCallbacks) {
+export async function handleStream(stream: AsyncGenerator<UpdateMetadataReturnedJSON, void, unknown>, on?: UploadCallbacks) {
   for await (const msg of stream) {
     if (msg.error) {
       console.log("Error in metadata update stream", msg.error);
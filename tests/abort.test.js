@@ -0,0 +1,51 @@
+import { expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { standIn } from "./stand-in.js";
+
+// Stand-in server that accepts requests but never answers them
+const api = standIn(() => {});
+
+test("aborting a query resolves with an aborted error", async () => {
+  const client = api.client();
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+
+  const result = await client.videos().abortSignal(controller.signal);
+
+  expect(result.error.code).toBe("aborted");
+});
+
+test("aborting search resolves with an aborted error", async () => {
+  const client = api.client();
+
+  const result = await client.search("cats", { signal: AbortSignal.abort() });
+
+  expect(result.error.code).toBe("aborted");
+});
+
+test("aborting one file of a batch upload only fails that file", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-abort-"));
+  const file = path.join(dir, "a.bin");
+  fs.writeFileSync(file, "hello");
+  const signedUrl = (id) => `${api.baseUrl}/upload/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=t`;
+
+  const batch = new AbortController();
+  const failed = [];
+  const resultPromise = client.uploadWithSignedUrls(
+    [
+      { name: "a.bin", size: 5, url: signedUrl("a"), data: fs.createReadStream(file), signal: AbortSignal.abort() },
+      { name: "b.bin", size: 5, url: signedUrl("b"), data: fs.createReadStream(file) },
+    ],
+    { onFailed: ({ file_index, error }) => failed.push([file_index, error.code]) },
+    { signal: batch.signal },
+  );
+  setTimeout(() => batch.abort(), 20);
+  const results = await resultPromise;
+
+  expect(failed).toEqual([[0, "aborted"], [1, "aborted"]]);
+  expect(results.map((r) => r.error.error.code)).toEqual(["aborted", "aborted"]);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
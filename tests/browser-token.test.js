@@ -0,0 +1,118 @@
+import { expect, test } from "bun:test";
+import crypto from "node:crypto";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API recording the Authorization header of each call.
+const calls = [];
+
+const api = standIn((req, res) => {
+  const url = new URL(req.url, "http://localhost");
+  calls.push({ path: url.pathname, authorization: req.headers.authorization });
+  res.setHeader("Content-Type", "application/json");
+  if (url.pathname === "/v1/search") return res.end(JSON.stringify({ data: { items: [] } }));
+  if (url.pathname === "/v1/signed-url/get") return res.end(JSON.stringify({ data: { urls: {}, expires_at: "" } }));
+  res.end(JSON.stringify({ data: [] }));
+}, { client: { keyId: "key_test" } });
+
+// Check an HS256 token against the secret the API derives from the key
+function verify(token, apiKey) {
+  const [header, payload, signature] = token.split(".");
+  const secret = crypto.createHmac("sha256", apiKey).update("zapdos-browser-token-v1").digest();
+  const expected = crypto.createHmac("sha256", secret).update(`${header}.${payload}`).digest("base64url");
+  expect(signature).toBe(expected);
+  const decode = (part) => JSON.parse(Buffer.from(part, "base64url").toString());
+  return { header: decode(header), payload: decode(payload) };
+}
+
+test("signs scoped tokens with a secret derived from the API key", () => {
+  const backend = api.client();
+
+  const { data } = backend.createBrowserToken({ scopes: ["query", "search"], objectIds: ["obj-1"], ttl: 600 });
+
+  const decoded = verify(data.token, "test-api-key-123");
+  expect(decoded.header).toEqual({ alg: "HS256", typ: "JWT", kid: "key_test" });
+  expect(data.token).not.toContain(Buffer.from("test-api-key-123").toString("base64url"));
+  expect(decoded.payload).toMatchObject({ scopes: ["query", "search"], object_ids: ["obj-1"] });
+  expect(decoded.payload.exp - decoded.payload.iat).toBe(600);
+  expect(Date.parse(data.expires_at)).toBe(decoded.payload.exp * 1000);
+});
+
+test("rejects tokens without scopes or with a bad ttl", () => {
+  const backend = api.client();
+
+  expect(backend.createBrowserToken({ scopes: [] }).error.code).toBe("validation");
+  expect(backend.createBrowserToken({ scopes: ["query"], ttl: 0 }).error.code).toBe("validation");
+});
+
+test("needs the key ID to sign tokens", () => {
+  const backend = api.client({ keyId: undefined });
+
+  expect(backend.createBrowserToken({ scopes: ["query"] }).error.code).toBe("validation");
+});
+
+test("browser clients query, search and get download URLs with their token", async () => {
+  const { createBrowserClient } = require("../src/index.js");
+  const { data } = api.client().createBrowserToken({ scopes: ["query", "search", "download"] });
+  const client = createBrowserClient({ baseUrl: api.baseUrl, token: data.token });
+  calls.length = 0;
+
+  await client.from("object_storage").select().limit(1);
+  await client.search("cats");
+  await client.getDownloadUrls(["obj-1"]);
+
+  expect(calls.map((call) => call.path)).toEqual(["/v1/query", "/v1/search", "/v1/signed-url/get"]);
+  expect(calls.every((call) => call.authorization === `Bearer ${data.token}`)).toBe(true);
+});
+
+test("refreshes a token that is about to expire", async () => {
+  const { createBrowserClient } = require("../src/index.js");
+  const backend = api.client();
+  const expiring = backend.createBrowserToken({ scopes: ["query"], ttl: 5 }).data.token;
+  const fresh = backend.createBrowserToken({ scopes: ["query"] }).data.token;
+  let refreshes = 0;
+  const client = createBrowserClient({
+    baseUrl: api.baseUrl,
+    token: expiring,
+    refreshToken: async () => {
+      refreshes++;
+      return fresh;
+    },
+  });
+  calls.length = 0;
+
+  await Promise.all([client.from("jobs").select(), client.from("jobs").select()]);
+  await client.from("jobs").select();
+
+  expect(refreshes).toBe(1);
+  expect(calls.every((call) => call.authorization === `Bearer ${fresh}`)).toBe(true);
+});
+
+test("browser queries without a token fail with an auth error", async () => {
+  const { createBrowserClient } = require("../src/index.js");
+  const client = createBrowserClient({ baseUrl: api.baseUrl });
+
+  const result = await client.from("jobs").select();
+
+  expect(result.error.code).toBe("auth");
+});
+
+test("search and download URLs resolve with an auth error when the token can't be had", async () => {
+  const { createBrowserClient } = require("../src/index.js");
+  const withoutToken = createBrowserClient({ baseUrl: api.baseUrl });
+  const failingRefresh = createBrowserClient({
+    baseUrl: api.baseUrl,
+    urlCache: false,
+    refreshToken: async () => {
+      throw new Error("nope");
+    },
+  });
+
+  const results = await Promise.all([
+    withoutToken.search("cats"),
+    withoutToken.getDownloadUrls(["obj-1"]),
+    failingRefresh.search("cats"),
+    failingRefresh.getDownloadUrls(["obj-1"]),
+  ]);
+
+  expect(results.map((result) => result.error?.code)).toEqual(["auth", "auth", "auth", "auth"]);
+});
@@ -0,0 +1,157 @@
+import { expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { json, standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API serving rows and jobs through /v1/query, search
+// results, uploads whose indexing never finishes, and events on the
+// WebSocket. Requests with the key "revoked" are refused.
+const queries = [];
+const indexing = [];
+const jobs = {
+  "job-done": { id: "job-done", status: "completed", created_at: "2026-01-01T00:00:00Z", content: { object_id: "obj-1", type: "indexing" } },
+  "job-failed": { id: "job-failed", status: "failed", created_at: "2026-01-02T00:00:00Z", content: { object_id: "obj-2", type: "indexing" } },
+};
+
+const api = standIn((req, res, raw) => {
+  if (req.headers.authorization === "Bearer revoked") return json(res, 401, { error: { message: "Invalid API key" } });
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/v1/query") {
+    const body = JSON.parse(raw);
+    queries.push(body);
+    if (body.from === "jobs") {
+      const id = body.where?.find(([column]) => column === "id")?.[2];
+      return json(res, 200, { data: id ? [jobs[id]] : Object.values(jobs) });
+    }
+    return json(res, 200, { data: [{ id: "obj-1", metadata: { kind: "video", file_name: "a.mp4" } }], next_cursor: "obj-1" });
+  }
+  if (url.pathname === "/v1/signed-url/put") {
+    return json(res, 200, { data: [`${api.baseUrl}/upload/obj-9?X-Zapdos-Obj-Id=obj-9&X-Zapdos-Token=token-9`] });
+  }
+  if (url.pathname.startsWith("/upload/")) return res.end();
+  if (req.method === "PATCH") {
+    // Left open, as while the indexing job runs
+    indexing.push(new Promise((resolve) => res.on("close", resolve)));
+    res.setHeader("Content-Type", "application/x-ndjson");
+    return res.write(JSON.stringify({ data: { type: "metadata_updated", object_id: "obj-9" } }) + "\n");
+  }
+  if (url.pathname === "/v1/search") {
+    return json(res, 200, {
+      data: {
+        items: [{
+          id: "hit-1",
+          type: "transcript",
+          score: 0.91234,
+          metadata: { object_id: "video-1", object_original_name: "talk.mp4", start_ms: 61_000, end_ms: 64_500, text: "hello there" },
+        }],
+      },
+    });
+  }
+  json(res, 404, { error: { message: "not found" } });
+}, { webSocket: true });
+
+function output() {
+  let text = "";
+  return { write: (chunk) => void (text += chunk), get text() { return text; } };
+}
+
+async function zapdos(argv, env = { ZAPDOS_API_KEY: "test-api-key-123", ZAPDOS_BASE_URL: api.baseUrl }) {
+  const { run } = require("../src/cli/index.js");
+  const stdout = output();
+  const stderr = output();
+  const code = await run(argv, { env: { HOME: os.tmpdir(), ...env }, stdout, stderr });
+  return { code, stdout: stdout.text, stderr: stderr.text };
+}
+
+test("query sends the conditions and prints the rows as JSON", async () => {
+  queries.length = 0;
+
+  const { code, stdout, stderr } = await zapdos([
+    "query", "object_storage",
+    "--where", "metadata->>'kind' = video",
+    "--where", "metadata->>'size' >= 1024",
+    "--where", "id in obj-1,obj-2",
+    "--order", "created_at:desc",
+    "--limit", "5",
+    "--json",
+  ]);
+
+  expect(code).toBe(0);
+  expect(queries[0]).toMatchObject({
+    from: "object_storage",
+    where: [["metadata->>'kind'", "=", "video"], ["metadata->>'size'", ">=", 1024], ["id", "in", ["obj-1", "obj-2"]]],
+    order_by: [["created_at", "desc"]],
+    limit: 5,
+  });
+  expect(JSON.parse(stdout)).toEqual([{ id: "obj-1", metadata: { kind: "video", file_name: "a.mp4" } }]);
+  expect(stderr).toBe("Next page: --cursor obj-1\n");
+});
+
+test("reads the API key from a config profile and prints tables", async () => {
+  const config = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-cli-")), "config.json");
+  fs.writeFileSync(config, JSON.stringify({ profiles: { ci: { apiKey: "test-api-key-123", baseUrl: api.baseUrl } } }));
+
+  const { code, stdout } = await zapdos(["jobs", "list", "--profile", "ci"], { ZAPDOS_CONFIG: config });
+
+  expect(code).toBe(0);
+  expect(stdout.split("\n")[0]).toMatch(/^ID\s+STATUS\s+TYPE\s+OBJECT_ID\s+CREATED_AT$/);
+  expect(stdout).toContain("job-failed  failed");
+});
+
+test("search prints the matches with their time range", async () => {
+  const { code, stdout } = await zapdos(["search", "hello", "--video", "video-1"]);
+
+  expect(code).toBe(0);
+  expect(stdout).toContain("transcript  0.912  video-1    1:01-1:04  hello there");
+});
+
+test("upload stops following the indexing jobs once it is done", async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-cli-")), "a.mp4");
+  fs.writeFileSync(file, "video");
+
+  const { code, stdout } = await zapdos(["upload", file, "--json"]);
+
+  expect(code).toBe(0);
+  expect(JSON.parse(stdout)).toEqual([{ file, object_id: "obj-9" }]);
+  // The process would otherwise stay alive until the event stream ends
+  await Promise.all(indexing);
+});
+
+test("jobs wait fails unless every job completed", async () => {
+  expect((await zapdos(["jobs", "wait", "job-done"])).code).toBe(0);
+
+  const { code, stdout } = await zapdos(["jobs", "wait", "job-done", "job-failed", "--json"]);
+  expect(code).toBe(1);
+  expect(JSON.parse(stdout).map((job) => job.status)).toEqual(["completed", "failed"]);
+});
+
+test("listen prints events as NDJSON", async () => {
+  // Told apart by its key from the sockets of `jobs wait`, which may still be closing
+  const connected = new Promise((resolve) => api.sockets.on("connection", function onConnection(socket, req) {
+    if (req.headers.authorization !== "Bearer listen-key") return;
+    api.sockets.off("connection", onConnection);
+    resolve(socket);
+  }));
+  const running = zapdos(["listen", "--type", "indexing_completed", "--count", "1", "--json"], {
+    ZAPDOS_API_KEY: "listen-key",
+    ZAPDOS_BASE_URL: api.baseUrl,
+  });
+  const socket = await connected;
+  const event = { type: "indexing_completed", job_id: "job-done", object_id: "obj-1" };
+  socket.send(JSON.stringify({ data: { type: "metadata_updated", object_id: "obj-1" } }));
+  socket.send(JSON.stringify({ data: event }));
+
+  const { code, stdout } = await running;
+  expect(code).toBe(0);
+  expect(stdout.trim().split("\n").map((line) => JSON.parse(line))).toEqual([event]);
+});
+
+test("exit codes tell usage, auth and other failures apart", async () => {
+  expect((await zapdos(["frobnicate"])).code).toBe(2);
+  expect((await zapdos(["query", "object_storage", "--where", "kind video"])).code).toBe(2);
+  expect((await zapdos(["search", "x", "--type", "sound"])).code).toBe(2);
+  expect((await zapdos(["jobs", "list"], {})).code).toBe(3);
+  expect((await zapdos(["jobs", "list"], { ZAPDOS_API_KEY: "revoked", ZAPDOS_BASE_URL: api.baseUrl })).code).toBe(3);
+  expect((await zapdos(["download", "missing"], { ZAPDOS_API_KEY: "k", ZAPDOS_BASE_URL: api.baseUrl })).code).toBe(1);
+});
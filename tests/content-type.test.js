@@ -0,0 +1,101 @@
+import { expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { standIn } from "./stand-in.js";
+
+const { detectContentType, kindFromContentType } = require("../src/index.js");
+
+function bytes(...values) {
+  return new Uint8Array(values.flatMap((value) => typeof value === "string" ? [...value].map((c) => c.charCodeAt(0)) : value));
+}
+
+test("detects content types from magic bytes before the extension", () => {
+  expect(detectContentType("clip.bin", bytes(0, 0, 0, 0x18, "ftypisom"))).toBe("video/mp4");
+  expect(detectContentType("clip.mp4", bytes(0, 0, 0, 0x14, "ftypqt  "))).toBe("video/quicktime");
+  expect(detectContentType("song.mp4", bytes(0, 0, 0, 0x20, "ftypM4A "))).toBe("audio/mp4");
+  expect(detectContentType("photo.mp4", bytes(0x89, "PNG", 0x0d, 0x0a, 0x1a, 0x0a))).toBe("image/png");
+  expect(detectContentType("photo", bytes(0xff, 0xd8, 0xff, 0xe0))).toBe("image/jpeg");
+  expect(detectContentType("sound", bytes("RIFF", 0, 0, 0, 0, "WAVE"))).toBe("audio/wav");
+  expect(detectContentType("movie", bytes(0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84, "webm"))).toBe("video/webm");
+});
+
+test("short signatures only win when the extension is unknown or agrees", () => {
+  // MPEG audio frame header: MPEG-1 layer III, 128 kbit/s, 44.1 kHz
+  expect(detectContentType("track", bytes(0xff, 0xfb, 0x90, 0x64))).toBe("audio/mpeg");
+  expect(detectContentType("track.mp3", bytes(0xff, 0xfb, 0x90, 0x64))).toBe("audio/mpeg");
+  expect(detectContentType("track.aac", bytes(0xff, 0xf1, 0x50, 0x80))).toBe("audio/aac");
+  expect(detectContentType("frame", bytes("BM", 0x36, 0, 0, 0, 0, 0, 0, 0, 0x36, 0, 0, 0))).toBe("image/bmp");
+  expect(detectContentType("clip", bytes("FLV", 0x01, 0x05))).toBe("video/x-flv");
+
+  expect(detectContentType("data.csv", bytes(0xff, 0xfb, 0x90, 0x64))).toBe("text/csv");
+  expect(detectContentType("notes.txt", bytes("BMW,Audi,VW,Opel,Fiat"))).toBe("text/plain");
+  expect(detectContentType("names.txt", bytes("FLV\n"))).toBe("text/plain");
+});
+
+test("ignores audio sync bits with reserved header values", () => {
+  // Bitrate index 15
+  expect(detectContentType("track", bytes(0xff, 0xfb, 0xf0, 0x64))).toBe("application/octet-stream");
+  // Sample rate index 3
+  expect(detectContentType("track", bytes(0xff, 0xfb, 0x9c, 0x64))).toBe("application/octet-stream");
+  // MPEG version 01
+  expect(detectContentType("track", bytes(0xff, 0xeb, 0x90, 0x64))).toBe("application/octet-stream");
+  // ADTS with sample rate index 13
+  expect(detectContentType("track", bytes(0xff, 0xf1, 0x74, 0x80))).toBe("application/octet-stream");
+});
+
+test("falls back to the declared type, then the extension", () => {
+  expect(detectContentType("notes.txt", bytes("hello world"))).toBe("text/plain");
+  expect(detectContentType("clip", undefined, "video/mp4")).toBe("video/mp4");
+  expect(detectContentType("CLIP.MOV", undefined, "application/octet-stream")).toBe("video/quicktime");
+  expect(detectContentType("unknown")).toBe("application/octet-stream");
+});
+
+test("derives the kind from the content type", () => {
+  expect(kindFromContentType("video/mp4")).toBe("video");
+  expect(kindFromContentType("image/png")).toBe("image");
+  expect(kindFromContentType("audio/mpeg")).toBe("audio");
+  expect(kindFromContentType("application/pdf")).toBe("document");
+  expect(kindFromContentType("application/octet-stream")).toBe("other");
+});
+
+// Stand-in for the Zapdos API recording the metadata sent for each object.
+let nextObject = 0;
+const metadata = new Map();
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/v1/signed-url/put") {
+    const quantity = Number(url.searchParams.get("quantity"));
+    const data = Array.from({ length: quantity }, () => {
+      const id = `obj-${nextObject++}`;
+      return `${api.baseUrl}/storage/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=token-${id}`;
+    });
+    res.setHeader("Content-Type", "application/json");
+    return res.end(JSON.stringify({ data }));
+  }
+  const objectId = url.pathname.split("/").pop();
+  if (req.method === "PATCH") {
+    metadata.set(objectId, JSON.parse(raw.toString()).metadata);
+    res.setHeader("Content-Type", "application/x-ndjson");
+    return res.end(JSON.stringify({ data: { type: "metadata_updated", object_id: objectId } }) + "\n");
+  }
+  res.end();
+});
+
+test("labels backend uploads with the detected type unless overridden", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-types-"));
+  const image = path.join(dir, "upload.dat");
+  const transcript = path.join(dir, "talk.srt");
+  fs.writeFileSync(image, bytes(0xff, 0xd8, 0xff, 0xe0, 0, 0x10, "JFIF"));
+  fs.writeFileSync(transcript, "1\n00:00:00,000 --> 00:00:01,000\nHi\n");
+
+  const results = await client.uploadBatch([image, transcript], undefined, {
+    fileTypes: [undefined, { kind: "transcript" }],
+  });
+
+  expect(metadata.get(results[0].data.object_id)).toMatchObject({ content_type: "image/jpeg", kind: "image" });
+  expect(metadata.get(results[1].data.object_id)).toMatchObject({ content_type: "application/x-subrip", kind: "transcript" });
+  fs.rmSync(dir, { recursive: true, force: true });
+});
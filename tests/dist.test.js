@@ -0,0 +1,79 @@
+import { beforeAll, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import vm from "node:vm";
+import { json, standIn } from "./stand-in.js";
+
+// The other tests import src/; these check the bundles the package ships,
+// where Node's modules could be replaced by browser stubs.
+const root = path.join(import.meta.dir, "..");
+const dist = path.join(root, "dist");
+
+// Stand-in for the Zapdos API storing nothing but "a"
+const content = Buffer.from("stored content");
+const sha256 = (buffer) => crypto.createHash("sha256").update(buffer).digest("hex");
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/v1/signed-url/get") return json(res, 200, { data: { urls: { a: `${api.baseUrl}/files/a` }, expires_at: "" } });
+  if (url.pathname === "/v1/query") {
+    const [[column, , values]] = JSON.parse(raw).where;
+    const stored = column === "id" && values.includes("a");
+    return json(res, 200, { data: stored ? [{ id: "a", metadata: { size: content.length, sha256: sha256(content) } }] : [] });
+  }
+  res.end(content);
+});
+
+beforeAll(() => {
+  execFileSync(path.join(root, "node_modules/.bin/vite"), ["build"], { cwd: root, stdio: "ignore" });
+}, 120_000);
+
+function createClient() {
+  const { createClient } = require(path.join(dist, "index.cjs.js"));
+  return createClient({ apiKey: "test-api-key-123", keyId: "key_test", baseUrl: api.baseUrl });
+}
+
+test("signs browser tokens from the CommonJS bundle", () => {
+  const { data, error } = createClient().createBrowserToken({ scopes: ["query"], ttl: 60 });
+
+  expect(error).toBeUndefined();
+  const header = JSON.parse(Buffer.from(data.token.split(".")[0], "base64url").toString());
+  expect(header).toEqual({ alg: "HS256", typ: "JWT", kid: "key_test" });
+});
+
+test("imports the ES module bundle", async () => {
+  const { createClient } = await import(path.join(dist, "index.es.js"));
+
+  expect(createClient({ apiKey: "test-api-key-123" }).environment).toBe("backend");
+});
+
+test("loads the UMD bundle in a browser-like context", () => {
+  const context = vm.createContext({ URL, AbortController, setTimeout, clearTimeout, console });
+  vm.runInContext(fs.readFileSync(path.join(dist, "index.umd.js"), "utf8"), context);
+
+  expect(context.Zapdos.createBrowserClient({ token: "t" }).environment).toBe("browser");
+});
+
+test("dry runs a directory sync from the CommonJS bundle", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-dist-"));
+  fs.writeFileSync(path.join(dir, "new.mp4"), "new");
+
+  const { data, error } = await createClient().syncDirectory(dir, { dryRun: true });
+
+  expect(error).toBeUndefined();
+  expect(data.uploaded).toEqual([{ path: "new.mp4", sha256: sha256(Buffer.from("new")), size: 3 }]);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("downloads and verifies files from the CommonJS bundle", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-dist-"));
+
+  const { data } = await createClient().downloadBatch(["a"], dir);
+
+  expect(data.results.map((file) => file.error)).toEqual([undefined]);
+  expect(fs.readFileSync(path.join(dir, "a"))).toEqual(content);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,123 @@
+import { expect, test } from "bun:test";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API and its storage: serves object metadata, signed
+// URLs and file bodies with Range support. "flaky" drops the connection
+// halfway through its first response; "corrupt" doesn't match its checksum.
+// Metadata queries fail while `queryDown` is set.
+const ranges = [];
+let flakyFailures = 0;
+let queryDown = false;
+
+const contents = {
+  a: Buffer.from("a".repeat(1000)),
+  flaky: Buffer.from("0123456789".repeat(100)),
+  corrupt: Buffer.from("corrupt!"),
+};
+const sha256 = (buffer) => crypto.createHash("sha256").update(buffer).digest("hex");
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/v1/signed-url/get") {
+    const ids = url.searchParams.get("ids").split(",").filter((id) => contents[id]);
+    const urls = Object.fromEntries(ids.map((id) => [id, `${api.baseUrl}/files/${id}`]));
+    res.setHeader("Content-Type", "application/json");
+    return res.end(JSON.stringify({ data: { urls, expires_at: "" } }));
+  }
+  if (url.pathname === "/v1/query") {
+    if (queryDown) {
+      res.statusCode = 500;
+      return res.end();
+    }
+    const ids = JSON.parse(raw).where[0][2].filter((id) => contents[id]);
+    const rows = ids.map((id) => ({
+      id,
+      metadata: { size: contents[id].length, sha256: id === "corrupt" ? sha256(Buffer.from("other")) : sha256(contents[id]) },
+    }));
+    res.setHeader("Content-Type", "application/json");
+    return res.end(JSON.stringify({ data: rows }));
+  }
+  const id = url.pathname.split("/").pop();
+  const body = contents[id];
+  const start = Number(/bytes=(\d+)-/.exec(req.headers.range ?? "")?.[1] ?? 0);
+  ranges.push([id, start]);
+  res.statusCode = start > 0 ? 206 : 200;
+  res.setHeader("Content-Length", body.length - start);
+  if (id === "flaky" && flakyFailures++ === 0) {
+    res.write(body.subarray(0, 500));
+    setTimeout(() => res.destroy(), 20);
+    return;
+  }
+  res.end(body.subarray(start));
+}, { client: { retry: { baseDelayMs: 1, jitter: "none" } } });
+
+test("reports every file of a batch separately", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-download-"));
+  const batchProgress = [];
+
+  const result = await client.downloadBatch(["a", "missing", "corrupt"], dir, {
+    concurrency: 2,
+    onBatchProgress: (progress) => batchProgress.push(progress),
+  });
+
+  expect(result.data.files).toEqual([path.join(dir, "a")]);
+  expect(result.data.results.map((file) => [file.id, file.error?.code])).toEqual([
+    ["a", undefined],
+    ["missing", "not_found"],
+    ["corrupt", "download_failed"],
+  ]);
+  expect(result.data.results[2].error.message).toContain("Checksum mismatch");
+  expect(fs.readFileSync(path.join(dir, "a"))).toEqual(contents.a);
+  // Nothing is left behind for files that failed verification
+  expect(fs.readdirSync(dir)).toEqual(["a"]);
+  expect(batchProgress.at(-1)).toMatchObject({ files: { total: 3, completed: 1, failed: 2 } });
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("downloads without verification when the metadata can't be looked up", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-download-"));
+  queryDown = true;
+
+  const result = await client.downloadBatch(["a", "corrupt"], dir).finally(() => (queryDown = false));
+
+  expect(result.data.results.map((file) => [file.id, file.error?.code])).toEqual([["a", undefined], ["corrupt", undefined]]);
+  expect(fs.readFileSync(path.join(dir, "corrupt"))).toEqual(contents.corrupt);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("resumes an interrupted download with a Range request", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-download-"));
+  const progress = [];
+  ranges.length = 0;
+
+  const result = await client.download("flaky", path.join(dir, "flaky.bin"), {
+    onProgress: ({ loaded, total }) => progress.push([loaded, total]),
+  });
+
+  expect(result.data.file).toBe(path.join(dir, "flaky.bin"));
+  expect(ranges).toEqual([["flaky", 0], ["flaky", 500]]);
+  expect(fs.readFileSync(path.join(dir, "flaky.bin"))).toEqual(contents.flaky);
+  expect(progress.at(-1)).toEqual([1000, 1000]);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("picks up the .part file of an earlier download", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-download-"));
+  fs.writeFileSync(path.join(dir, "a.part"), contents.a.subarray(0, 300));
+  ranges.length = 0;
+
+  const result = await client.downloadBatch(["a"], dir);
+
+  expect(result.data.results[0]).toMatchObject({ size: 1000, resumed: true });
+  expect(ranges).toEqual([["a", 300]]);
+  expect(fs.readFileSync(path.join(dir, "a"))).toEqual(contents.a);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,90 @@
+import { expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API: metadata updates and indexing requests answer
+// with NDJSON event streams, like the real routes.
+let nextObject = 0;
+const requests = [];
+
+function ndjson(res, events) {
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.end(events.map((event) => JSON.stringify(event) + "\n").join(""));
+}
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  const isJson = req.headers["content-type"]?.includes("json");
+  const body = isJson ? JSON.parse(raw.toString()) : undefined;
+  requests.push({ method: req.method, path: url.pathname, body });
+
+  if (url.pathname === "/v1/signed-url/put") {
+    const quantity = Number(url.searchParams.get("quantity"));
+    const data = Array.from({ length: quantity }, () => {
+      const id = `obj-${nextObject++}`;
+      return `${api.baseUrl}/storage/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=token-${id}`;
+    });
+    res.setHeader("Content-Type", "application/json");
+    return res.end(JSON.stringify({ data }));
+  }
+  if (url.pathname === "/v1/jobs/indexing") {
+    const ids = body.object_ids.filter((id) => id !== "missing");
+    return ndjson(res, [
+      ...ids.map((object_id) => ({ data: { type: "indexing_started", object_id, job_id: `job-${object_id}` } })),
+      ...ids.map((object_id) => ({ data: { type: "indexing_completed", object_id, job_id: `job-${object_id}` } })),
+    ]);
+  }
+  if (req.method === "PATCH") {
+    const object_id = url.pathname.split("/").pop();
+    return ndjson(res, [{ data: { type: "metadata_updated", object_id } }]);
+  }
+  res.end();
+});
+
+test("defers indexing of uploads with index: false", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-indexing-"));
+  const file = path.join(dir, "video.mp4");
+  fs.writeFileSync(file, "data");
+  requests.length = 0;
+
+  const results = await client.upload(file, undefined, { index: false });
+
+  expect(results[0].data.object_id).toBeDefined();
+  expect(requests.find((request) => request.method === "PATCH").body.create_indexing_job).toBe(false);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("starts indexing jobs and reports their progress", async () => {
+  const client = api.client();
+  const completed = [];
+  let markDone;
+  const done = new Promise((resolve) => (markDone = resolve));
+
+  const result = await client.startIndexing(["obj-a", "obj-b", "obj-a"], {
+    job: {
+      onIndexingCompleted: ({ object_id }) => {
+        completed.push(object_id);
+        if (completed.length === 2) markDone();
+      },
+    },
+  });
+
+  expect(result.data).toEqual([
+    { object_id: "obj-a", job_id: "job-obj-a" },
+    { object_id: "obj-b", job_id: "job-obj-b" },
+  ]);
+  await done;
+  expect(completed).toEqual(["obj-a", "obj-b"]);
+});
+
+test("fails when a job was not started", async () => {
+  const client = api.client();
+
+  const result = await client.startIndexing(["obj-a", "missing"]);
+
+  expect(result.error.code).toBe("invalid_response");
+  expect(result.error.details.missing).toEqual(["missing"]);
+});
@@ -0,0 +1,108 @@
+import { expect, test } from "bun:test";
+import { json, standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API serving job rows through /v1/query, the job
+// actions, and job events on the WebSocket.
+const jobs = new Map();
+const queries = [];
+
+function setJob(id, status) {
+  const job = { id, status, created_at: "2026-01-01T00:00:00Z", org_id: "org", content: { object_id: "obj-1", type: "indexing" } };
+  jobs.set(id, job);
+  return job;
+}
+
+function broadcast(event) {
+  api.sockets.clients.forEach((socket) => socket.send(JSON.stringify(event)));
+}
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/v1/query") {
+    const body = JSON.parse(raw);
+    queries.push(body);
+    const id = body.where.find(([column]) => column === "id")?.[2];
+    return json(res, 200, { data: id ? [jobs.get(id)].filter(Boolean) : [...jobs.values()] });
+  }
+  const [, , , id, action] = url.pathname.split("/");
+  if (action === "cancel") return json(res, 200, { data: setJob(id, "cancelled") });
+  if (action === "retry") return json(res, 200, { data: setJob(`${id}-retry`, "pending") });
+  json(res, 404, { error: { message: "not found" } });
+}, { webSocket: true });
+
+test("waitForJob returns as soon as a WebSocket event reports the job", async () => {
+  const client = api.client();
+  setJob("job-ws", "running");
+  api.sockets.once("connection", () => {
+    setTimeout(() => {
+      setJob("job-ws", "completed");
+      broadcast({ data: { type: "indexing_completed", object_id: "obj-1", job_id: "job-ws" } });
+    }, 20);
+  });
+
+  const started = Date.now();
+  const result = await client.waitForJob("job-ws", { pollInterval: 10_000 });
+
+  expect(result.data.status).toBe("completed");
+  expect(Date.now() - started).toBeLessThan(5000);
+});
+
+test("concurrent waits share one WebSocket", async () => {
+  const client = api.client();
+  setJob("job-a", "running");
+  setJob("job-b", "running");
+  const connections = [];
+  const onConnection = (socket) => {
+    connections.push(socket);
+    setTimeout(() => {
+      setJob("job-a", "completed");
+      setJob("job-b", "failed");
+      broadcast({ data: { type: "indexing_completed", object_id: "obj-1", job_id: "job-a" } });
+      broadcast({ data: { type: "indexing_failed", object_id: "obj-1", job_id: "job-b" } });
+    }, 20);
+  };
+  api.sockets.on("connection", onConnection);
+
+  const results = await Promise.all(["job-a", "job-b"].map((id) => client.waitForJob(id, { pollInterval: 10_000 })));
+  api.sockets.off("connection", onConnection);
+
+  expect(results.map((result) => result.data.status)).toEqual(["completed", "failed"]);
+  expect(connections).toHaveLength(1);
+});
+
+test("waitForJob falls back to polling", async () => {
+  const client = api.client();
+  setJob("job-poll", "pending");
+  setTimeout(() => setJob("job-poll", "failed"), 30);
+
+  const result = await client.waitForJob("job-poll", { pollInterval: 10 });
+
+  expect(result.data.status).toBe("failed");
+});
+
+test("waitForJob gives up after the timeout", async () => {
+  const client = api.client();
+  setJob("job-slow", "running");
+
+  const result = await client.waitForJob("job-slow", { timeout: 50, pollInterval: 10 });
+
+  expect(result.error.code).toBe("timeout");
+});
+
+test("cancels, retries and lists the jobs of an object", async () => {
+  const client = api.client();
+  setJob("job-x", "running");
+
+  const cancelled = await client.cancelJob("job-x");
+  const retried = await client.retryJob("job-x");
+  queries.length = 0;
+  await client.jobsFor("obj-1");
+
+  expect(cancelled.data.status).toBe("cancelled");
+  expect(retried.data).toMatchObject({ id: "job-x-retry", status: "pending" });
+  expect(queries[0]).toMatchObject({
+    from: "jobs",
+    where: [["content->>'object_id'", "=", "obj-1"]],
+    order_by: [["created_at", "desc"]],
+  });
+});
@@ -0,0 +1,61 @@
+import { expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API recording every metadata update.
+let nextObject = 0;
+const patches = [];
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/v1/signed-url/put") {
+    const quantity = Number(url.searchParams.get("quantity"));
+    const data = Array.from({ length: quantity }, () => {
+      const id = `obj-${nextObject++}`;
+      return `${api.baseUrl}/storage/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=token-${id}`;
+    });
+    res.setHeader("Content-Type", "application/json");
+    return res.end(JSON.stringify({ data }));
+  }
+  const objectId = url.pathname.split("/").pop();
+  if (req.method === "PATCH") {
+    patches.push({ objectId, headers: req.headers, body: JSON.parse(raw.toString()) });
+    res.setHeader("Content-Type", "application/x-ndjson");
+    return res.end(JSON.stringify({ data: { type: "metadata_updated", object_id: objectId } }) + "\n");
+  }
+  res.end();
+});
+
+test("stores batch and per-file metadata with each upload", async () => {
+  const client = api.client();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-metadata-"));
+  const files = ["a.mp4", "b.mp4"].map((name) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, "data");
+    return file;
+  });
+  patches.length = 0;
+
+  const results = await client.uploadBatch(files, undefined, {
+    metadata: { customer_id: "cus_123", file_name: "ignored" },
+    fileMetadata: [{ camera: "north" }, { camera: "south", customer_id: "cus_456" }],
+  });
+
+  const sent = (index) => patches.find((patch) => patch.objectId === results[index].data.object_id).body.metadata;
+  expect(sent(0)).toMatchObject({ customer_id: "cus_123", camera: "north", file_name: "a.mp4" });
+  expect(sent(1)).toMatchObject({ customer_id: "cus_456", camera: "south", file_name: "b.mp4" });
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("updates metadata without starting an indexing job", async () => {
+  const client = api.client();
+  patches.length = 0;
+
+  const result = await client.updateMetadata("obj-42", { tags: ["reviewed"] });
+
+  expect(result).toEqual({ data: { object_id: "obj-42" } });
+  expect(patches[0].headers.authorization).toBe("Bearer test-api-key-123");
+  expect(patches[0].body).toEqual({ metadata: { tags: ["reviewed"] }, create_indexing_job: false });
+});
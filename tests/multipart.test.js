@@ -0,0 +1,115 @@
+import { expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { json, standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API implementing signed URLs, the multipart part
+// protocol and the NDJSON metadata update.
+let nextObject = 0;
+const uploads = new Map();
+const objects = new Map();
+const log = [];
+const failOnce = new Set();
+
+const api = standIn((req, res, body) => {
+  const url = new URL(req.url, "http://localhost");
+  const parts = url.pathname.split("/").filter(Boolean);
+  log.push(`${req.method} ${url.pathname}`);
+
+  if (url.pathname === "/v1/signed-url/put") {
+    const quantity = Number(url.searchParams.get("quantity"));
+    const data = Array.from({ length: quantity }, () => {
+      const id = `obj-${nextObject++}`;
+      return `${api.baseUrl}/storage/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=token-${id}`;
+    });
+    return json(res, 200, { data });
+  }
+
+  const [, , objectId, multipart, uploadId, partsSegment, partNumber] = parts;
+  if (req.headers["x-zapdos-token"] !== `token-${objectId}`) {
+    return json(res, 401, { error: { message: "bad token" } });
+  }
+
+  if (multipart !== "multipart") {
+    // PATCH /v1/storage/:id
+    res.setHeader("Content-Type", "application/x-ndjson");
+    return res.end(JSON.stringify({ data: { type: "metadata_updated", object_id: objectId } }) + "\n");
+  }
+  if (!uploadId && req.method === "POST") {
+    const id = `upload-${uploads.size}`;
+    uploads.set(id, { objectId, parts: new Map() });
+    return json(res, 200, { data: { upload_id: id } });
+  }
+  const upload = uploads.get(uploadId);
+  if (!upload) return json(res, 404, { error: { message: "no such upload" } });
+  if (req.method === "GET") {
+    const list = [...upload.parts].map(([part_number, data]) => ({ part_number, etag: `etag-${part_number}`, size: data.length }));
+    return json(res, 200, { data: { parts: list } });
+  }
+  if (partsSegment === "parts" && req.method === "PUT") {
+    const key = `${uploadId}/${partNumber}`;
+    if (failOnce.delete(key)) return json(res, 503, { error: { message: "try again" } });
+    upload.parts.set(Number(partNumber), body);
+    return json(res, 200, { data: { etag: `etag-${partNumber}` } });
+  }
+  if (partsSegment === "complete") {
+    const ordered = JSON.parse(body.toString()).parts.map((p) => upload.parts.get(p.part_number));
+    objects.set(upload.objectId, Buffer.concat(ordered));
+    return json(res, 200, { data: {} });
+  }
+  json(res, 400, { error: { message: "unexpected request" } });
+}, { client: { retry: { baseDelayMs: 1 } } });
+
+function writeTempFile(size) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-multipart-"));
+  const file = path.join(dir, "video.mp4");
+  fs.writeFileSync(file, Buffer.from(Array.from({ length: size }, (_, i) => i % 251)));
+  return file;
+}
+
+test("uploads a file in parts, retrying a failed part", async () => {
+  const client = api.client();
+  const file = writeTempFile(10_000);
+  failOnce.add(`upload-${uploads.size}/2`);
+  const progress = [];
+
+  const results = await client.upload(file, { onProgress: ({ value }) => progress.push(value) }, {
+    chunked: { partSize: 4096 },
+  });
+
+  const objectId = `obj-${nextObject - 1}`;
+  expect(results[0].data).toEqual({ object_id: objectId, file_index: 0 });
+  expect(objects.get(objectId).equals(fs.readFileSync(file))).toBe(true);
+  expect(progress[progress.length - 1]).toBe(100);
+  expect(fs.existsSync(`${file}.zapdos-upload.json`)).toBe(false);
+  fs.rmSync(path.dirname(file), { recursive: true, force: true });
+});
+
+test("resumes an interrupted upload from its state file", async () => {
+  const client = api.client();
+  const file = writeTempFile(10_000);
+  const controller = new AbortController();
+
+  const first = await client.upload(file, {
+    onUploadStateChange: ({ state }) => {
+      if (state.parts.length === 1) controller.abort();
+    },
+  }, { chunked: { partSize: 4096 }, signal: controller.signal });
+
+  expect(first[0].error.error.code).toBe("aborted");
+  const saved = JSON.parse(fs.readFileSync(`${file}.zapdos-upload.json`, "utf8"));
+  expect(saved.parts.map((p) => p.part_number)).toEqual([1]);
+
+  log.length = 0;
+  const second = await client.upload(file, undefined, { chunked: { partSize: 4096 } });
+
+  expect(second[0].data.object_id).toBe(saved.object_id);
+  expect(log.filter((line) => line.includes("/parts/"))).toEqual([
+    `PUT /v1/storage/${saved.object_id}/multipart/${saved.upload_id}/parts/2`,
+    `PUT /v1/storage/${saved.object_id}/multipart/${saved.upload_id}/parts/3`,
+  ]);
+  expect(log.some((line) => line.startsWith("GET /v1/signed-url/put"))).toBe(false);
+  expect(objects.get(saved.object_id).equals(fs.readFileSync(file))).toBe(true);
+  fs.rmSync(path.dirname(file), { recursive: true, force: true });
+});
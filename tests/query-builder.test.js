@@ -0,0 +1,132 @@
+import { expect, test } from "bun:test";
+import { standIn } from "./stand-in.js";
+
+const requests = [];
+// Rows served by the stand-in /v1/query endpoint, paged by cursor (the row id).
+const rows = Array.from({ length: 25 }, (_, i) => ({ id: `obj-${String(i).padStart(2, "0")}` }));
+
+const api = standIn((req, res, raw) => {
+  const body = raw.length ? JSON.parse(raw) : {};
+  requests.push(body);
+  if (body.aggregate) {
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ data: [{ count: rows.length }] }));
+    return;
+  }
+  const start = body.cursor ? rows.findIndex((r) => r.id === body.cursor) + 1 : 0;
+  const data = rows.slice(start, start + (body.limit ?? rows.length));
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ data }));
+});
+
+test("paginate walks every page following the cursor", async () => {
+  requests.length = 0;
+  const client = api.client();
+  const ids = [];
+  for await (const row of client.from("object_storage").select().paginate({ pageSize: 10 })) {
+    ids.push(row.id);
+  }
+
+  expect(ids).toEqual(rows.map((r) => r.id));
+  expect(requests.map((r) => r.cursor)).toEqual([undefined, "obj-09", "obj-19"]);
+});
+
+test("pages stops at maxItems", async () => {
+  const client = api.client();
+  const pages = [];
+  for await (const page of client.from("object_storage").select().pages({ pageSize: 10, maxItems: 15 })) {
+    pages.push(page.length);
+  }
+
+  expect(pages).toEqual([10, 5]);
+});
+
+test("or/not groups are serialized into the where list", async () => {
+  requests.length = 0;
+  const client = api.client();
+  await client
+    .from("object_storage")
+    .select()
+    .where("metadata->>'kind'", "=", "scene")
+    .or((q) => q.where("metadata->>'content_type'", "~", "^video/").where("metadata->>'content_type'", "~", "^image/"))
+    .not((q) => q.and((g) => g.where("id", "=", "a").where("org_id", "=", "b")));
+
+  expect(requests[0].where).toEqual([
+    ["metadata->>'kind'", "=", "scene"],
+    { or: [["metadata->>'content_type'", "~", "^video/"], ["metadata->>'content_type'", "~", "^image/"]] },
+    { not: [{ and: [["id", "=", "a"], ["org_id", "=", "b"]] }] },
+  ]);
+});
+
+test("where values are serialized per operator", async () => {
+  requests.length = 0;
+  const client = api.client();
+  await client.scenes("video-1");
+  await client
+    .from("object_storage")
+    .select()
+    .where("id", "in", ["a", "b"])
+    .where("metadata->>'archived'", "=", false)
+    .where("metadata->'parents'", "is null");
+
+  expect(requests[0].where).toEqual([
+    ["metadata->'parents'", "@>", '["video-1"]'],
+    ["metadata->>'kind'", "=", "scene"],
+  ]);
+  expect(requests[1].where).toEqual([
+    ["id", "in", ["a", "b"]],
+    ["metadata->>'archived'", "=", "false"],
+    ["metadata->'parents'", "is null", null],
+  ]);
+});
+
+test("orderBy, aggregate and count build the expected bodies", async () => {
+  requests.length = 0;
+  const client = api.client();
+  await client
+    .from("object_storage")
+    .select()
+    .orderBy("created_at", "desc")
+    .orderBy("id");
+  await client
+    .from("object_storage")
+    .select("id")
+    .where("metadata->>'kind'", "=", "video")
+    .aggregate(
+      { total_size: ["sum", "metadata->>'size'"] },
+      { groupBy: { content_type: "metadata->>'content_type'" } },
+    );
+  const count = await client.videos().limit(5).count();
+
+  expect(requests[0].order_by).toEqual([["created_at", "desc"], ["id", "asc"]]);
+  expect(requests[1]).toEqual({
+    from: "object_storage",
+    where: [["metadata->>'kind'", "=", "video"]],
+    aggregate: [["sum", "metadata->>'size'", "total_size"]],
+    group_by: [["metadata->>'content_type'", "content_type"]],
+  });
+  expect(requests[2].select).toBeUndefined();
+  expect(requests[2].limit).toBeUndefined();
+  expect(count).toEqual({ data: 25, error: undefined });
+});
+
+test("a custom transport receives every query", async () => {
+  const { createClient } = require("../src/index.js");
+  const sent = [];
+  const client = createClient({
+    apiKey: "test-api-key-123",
+    baseUrl: "https://api.zapdos.test",
+    transport: {
+      async request(req) {
+        sent.push(req);
+        return { status: 200, headers: {}, data: { data: [{ id: "fake" }] } };
+      },
+    },
+  });
+
+  const result = await client.jobs().limit(1);
+
+  expect(result.data).toEqual([{ id: "fake" }]);
+  expect(sent[0].url).toBe("https://api.zapdos.test/v1/query");
+  expect(sent[0].headers.Authorization).toBe("Bearer test-api-key-123");
+});
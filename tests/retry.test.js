@@ -0,0 +1,78 @@
+import { expect, test } from "bun:test";
+
+function createTestClient(responses, retry) {
+  const { createClient, TransportError } = require("../src/index.js");
+  const sent = [];
+  const client = createClient({
+    apiKey: "test-api-key-123",
+    baseUrl: "https://api.zapdos.test",
+    retry,
+    transport: {
+      async request(req) {
+        sent.push(req);
+        const next = responses.shift();
+        if (next.status >= 400) {
+          throw new TransportError(`Request failed with status code ${next.status}`, next.status, null, next.headers ?? {});
+        }
+        return { status: 200, headers: {}, data: next.data };
+      },
+    },
+  });
+  return { client, sent };
+}
+
+test("retries retryable statuses with backoff", async () => {
+  const retries = [];
+  const { client, sent } = createTestClient(
+    [{ status: 502 }, { status: 503 }, { status: 200, data: { data: ["url"] } }],
+    { baseDelayMs: 1, onRetry: (info) => retries.push(info.attempt) },
+  );
+
+  const result = await client.getUploadUrls(1);
+
+  expect(result.data).toEqual(["url"]);
+  expect(sent.length).toBe(3);
+  expect(retries).toEqual([1, 2]);
+});
+
+test("does not retry client errors", async () => {
+  const { client, sent } = createTestClient([{ status: 400 }, { status: 200, data: { data: [] } }], { baseDelayMs: 1 });
+
+  const result = await client.search("cats");
+
+  expect(result.error.code).toBe("validation");
+  expect(result.error.status).toBe(400);
+  expect(result.error.retryable).toBe(false);
+  expect(sent.length).toBe(1);
+});
+
+test("respects Retry-After on 429", async () => {
+  const delays = [];
+  const { client } = createTestClient(
+    [{ status: 429, headers: { "retry-after": "0.02" } }, { status: 200, data: { data: { items: [] } } }],
+    { baseDelayMs: 5000, onRetry: (info) => delays.push(info.delayMs) },
+  );
+
+  const result = await client.search("cats");
+
+  expect(result.data).toEqual({ items: [] });
+  expect(delays).toEqual([20]);
+});
+
+test("retry: false disables retries", async () => {
+  const { client, sent } = createTestClient([{ status: 503 }, { status: 200, data: { data: [] } }], false);
+
+  await client.search("cats");
+
+  expect(sent.length).toBe(1);
+});
+
+test("queries report structured errors", async () => {
+  const { ZapdosError } = require("../src/index.js");
+  const { client } = createTestClient([{ status: 401 }], false);
+
+  const result = await client.videos();
+
+  expect(result.error).toBeInstanceOf(ZapdosError);
+  expect(result.error.code).toBe("auth");
+});
@@ -0,0 +1,117 @@
+import { expect, test } from "bun:test";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos search endpoint: pages through two fixed hits and
+// groups them by video when asked. Also serves the video rows and signed URLs
+// used to hydrate results.
+const bodies = [];
+const followUps = [];
+
+const hits = [
+  { id: "s1", type: "scene", score: 0.9, metadata: { object_id: "vid-1", object_original_name: "a.mp4", start_ms: 0, end_ms: 1000, scene_index: 0, scene_image_object_id: "img-1" } },
+  { id: "t1", type: "transcript", score: 0.7, metadata: { object_id: "vid-2", object_original_name: "b.mp4", start_ms: 500, end_ms: 900, text: "hello" } },
+];
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  res.setHeader("Content-Type", "application/json");
+  if (url.pathname === "/v1/signed-url/get") {
+    const ids = url.searchParams.get("ids").split(",");
+    followUps.push({ path: url.pathname, ids });
+    const urls = Object.fromEntries(ids.map((id) => [id, `https://cdn.test/${id}`]));
+    return res.end(JSON.stringify({ data: { urls, expires_at: "2026-01-01T01:00:00Z" } }));
+  }
+  const body = JSON.parse(raw);
+  if (url.pathname === "/v1/query") {
+    const ids = body.where[0][2];
+    followUps.push({ path: url.pathname, ids });
+    return res.end(JSON.stringify({ data: ids.map((id) => ({ id, metadata: { file_name: `${id}.mp4` } })) }));
+  }
+  bodies.push(body);
+  if (body.group_by === "video") {
+    const videos = hits.map((hit) => ({ object_id: hit.metadata.object_id, object_original_name: hit.metadata.object_original_name, score: hit.score, items: [hit] }));
+    return res.end(JSON.stringify({ data: { videos } }));
+  }
+  const offset = body.cursor ? Number(body.cursor) : 0;
+  const items = hits.slice(offset, offset + (body.limit ?? hits.length));
+  const next = offset + items.length;
+  res.end(JSON.stringify({ data: { items, ...(next < hits.length && { next_cursor: String(next) }) } }));
+});
+
+test("sends filters in the request body", async () => {
+  const client = api.client();
+  bodies.length = 0;
+
+  await client.search("cats", {
+    limit: 2,
+    minScore: 0.5,
+    types: ["scene"],
+    start_ms: { gte: 1000 },
+    end_ms: { lte: 5000 },
+    uploadedAt: { gte: new Date("2026-01-01T00:00:00Z"), lte: "2026-02-01T00:00:00Z" },
+  });
+
+  expect(bodies[0]).toEqual({
+    text: "cats",
+    limit: 2,
+    min_score: 0.5,
+    types: ["scene"],
+    start_ms: { gte: 1000 },
+    end_ms: { lte: 5000 },
+    uploaded_at: { gte: "2026-01-01T00:00:00.000Z", lte: "2026-02-01T00:00:00Z" },
+  });
+});
+
+test("pages through results with the cursor", async () => {
+  const client = api.client();
+
+  const first = await client.search("cats", { limit: 1 });
+  const second = await client.search("cats", { limit: 1, cursor: first.data.next_cursor });
+
+  expect(first.data.items.map((item) => item.id)).toEqual(["s1"]);
+  expect(second.data.items.map((item) => item.id)).toEqual(["t1"]);
+  expect(second.data.next_cursor).toBeUndefined();
+});
+
+test("groups results by video", async () => {
+  const client = api.client();
+
+  const { data } = await client.search("cats", { groupBy: "video" });
+
+  expect(bodies.at(-1).group_by).toBe("video");
+  expect(data.videos.map((video) => video.object_id)).toEqual(["vid-1", "vid-2"]);
+  expect(data.videos[1].items[0].metadata.text).toBe("hello");
+});
+
+test("hydrates results with batched follow-up requests", async () => {
+  const client = api.client();
+  followUps.length = 0;
+
+  const { data } = await client.search("cats", { hydrate: ["video", "thumbnailUrl", "videoUrl"] });
+
+  // One request of each kind, sent in parallel
+  expect(followUps.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+    { path: "/v1/query", ids: ["vid-1", "vid-2"] },
+    { path: "/v1/signed-url/get", ids: ["vid-1", "img-1", "vid-2"] },
+  ]);
+  expect(data.urls_expires_at).toBe("2026-01-01T01:00:00Z");
+  expect(data.items[0]).toMatchObject({
+    id: "s1",
+    video: { id: "vid-1", metadata: { file_name: "vid-1.mp4" } },
+    thumbnailUrl: "https://cdn.test/img-1",
+    videoUrl: "https://cdn.test/vid-1",
+  });
+  // Transcript matches have no scene image
+  expect(data.items[1]).toMatchObject({ id: "t1", thumbnailUrl: null, videoUrl: "https://cdn.test/vid-2" });
+});
+
+test("hydrates only the requested fields of grouped results", async () => {
+  const client = api.client();
+  followUps.length = 0;
+
+  const { data } = await client.search("cats", { groupBy: "video", hydrate: ["thumbnailUrl"] });
+
+  expect(followUps.map((call) => call.path)).toEqual(["/v1/signed-url/get"]);
+  expect(data.videos[0].items[0].thumbnailUrl).toBe("https://cdn.test/img-1");
+  expect("video" in data.videos[0].items[0]).toBe(false);
+});
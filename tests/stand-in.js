@@ -0,0 +1,52 @@
+import { afterAll, beforeAll } from "bun:test";
+import http from "node:http";
+import { WebSocketServer } from "ws";
+
+/**
+ * Runs a stand-in for the Zapdos API on a free local port for the tests of
+ * the calling file. `handle` is called once each request's body is read;
+ * with `webSocket`, clients can connect on /v1/ws and `api.sockets` is the
+ * server end. `baseUrl`, `server` and `sockets` are set once the tests start;
+ * `client` options apply to every `api.client()`.
+ */
+export function standIn(handle, options = {}) {
+  const api = {
+    server: undefined,
+    sockets: undefined,
+    baseUrl: undefined,
+    /** A backend client of the stand-in, with a test API key. */
+    client(clientOptions) {
+      const { createClient } = require("../src/index.js");
+      return createClient({ apiKey: "test-api-key-123", baseUrl: api.baseUrl, ...options.client, ...clientOptions });
+    },
+  };
+
+  beforeAll(async () => {
+    api.server = http.createServer((req, res) => {
+      const chunks = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => {
+        if (handle) return handle(req, res, Buffer.concat(chunks));
+        json(res, 404, { error: { message: "not found" } });
+      });
+    });
+    if (options.webSocket) api.sockets = new WebSocketServer({ server: api.server, path: "/v1/ws" });
+    await new Promise((resolve) => api.server.listen(0, "127.0.0.1", resolve));
+    api.baseUrl = `http://127.0.0.1:${api.server.address().port}`;
+  });
+
+  afterAll(() => {
+    api.sockets?.close();
+    // Some stand-ins leave requests unanswered
+    api.server.closeAllConnections();
+    api.server.close();
+  });
+
+  return api;
+}
+
+export function json(res, status, body) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
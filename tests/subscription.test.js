@@ -0,0 +1,175 @@
+import { expect, jest, test } from "bun:test";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos WebSocket.
+const api = standIn(null, { webSocket: true });
+
+function broadcast(event) {
+  api.sockets.clients.forEach((socket) => socket.send(JSON.stringify({ data: event })));
+}
+
+function nextConnection() {
+  return new Promise((resolve) => api.sockets.once("connection", resolve));
+}
+
+test("delivers typed events by type, object and job", async () => {
+  const client = api.client();
+  const connected = nextConnection();
+  const subscription = client.listen({ heartbeatInterval: false });
+  const completed = [];
+  const forObject = [];
+  const forJob = [];
+  subscription.on("indexing_completed", (event) => completed.push(event.job_id));
+  subscription.subscribe({ objectId: "obj-1" }, (event) => forObject.push(event.type));
+  subscription.subscribe({ jobId: "job-2" }, (event) => forJob.push(event.type));
+  await connected;
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  broadcast({ type: "indexing_started", object_id: "obj-1", job_id: "job-1" });
+  broadcast({ type: "indexing_completed", object_id: "obj-1", job_id: "job-1" });
+  broadcast({ type: "indexing_completed", object_id: "obj-2", job_id: "job-2" });
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  subscription.close();
+
+  expect(completed).toEqual(["job-1", "job-2"]);
+  expect(forObject).toEqual(["indexing_started", "indexing_completed"]);
+  expect(forJob).toEqual(["indexing_completed"]);
+});
+
+test("reconnects after the connection drops and keeps iterating", async () => {
+  const client = api.client();
+  let connected = nextConnection();
+  const subscription = client.listen({ heartbeatInterval: false, reconnect: { baseDelayMs: 10, jitter: "none" } });
+  const received = [];
+  const iterating = (async () => {
+    for await (const event of subscription.events({ types: ["metadata_updated"] })) {
+      received.push(event.object_id);
+      if (received.length === 2) break;
+    }
+  })();
+
+  const first = await connected;
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  broadcast({ type: "metadata_updated", object_id: "obj-a" });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  connected = nextConnection();
+  first.terminate();
+  await connected;
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  broadcast({ type: "metadata_updated", object_id: "obj-b" });
+
+  await iterating;
+  subscription.close();
+  expect(received).toEqual(["obj-a", "obj-b"]);
+  expect(subscription.state).toBe("closed");
+});
+
+test("browser clients authenticate with a token in the URL or the first message", async () => {
+  const { createBrowserClient } = require("../src/index.js");
+  const client = createBrowserClient({ baseUrl: api.baseUrl });
+  const seen = [];
+  api.sockets.on("connection", (socket, req) => {
+    seen.push(new URL(req.url, "http://localhost").searchParams.get("token"));
+    socket.once("message", (raw) => seen.push(JSON.parse(raw.toString())));
+  });
+
+  let connected = nextConnection();
+  const viaUrl = client.listen({ token: "url-token", heartbeatInterval: false });
+  const received = [];
+  viaUrl.on("transcription", (event) => received.push(event.job_id));
+  await connected;
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  broadcast({ type: "transcription", object_id: "obj-1", job_id: "job-1" });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  viaUrl.close();
+
+  connected = nextConnection();
+  const viaMessage = client.listen({ token: async () => "message-token", tokenIn: "message", heartbeatInterval: false });
+  await connected;
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  viaMessage.close();
+  api.sockets.removeAllListeners("connection");
+
+  expect(received).toEqual(["job-1"]);
+  expect(seen).toEqual(["url-token", null, { type: "auth", token: "message-token" }]);
+});
+
+test("drops and reopens a connection that misses its heartbeat", async () => {
+  const { ZapdosSubscription } = require("../src/subscription.ts");
+  // A socket whose pings are never answered
+  const opened = [];
+  const connect = () => {
+    const socket = {
+      ping() { },
+      send() { },
+      close() { },
+      terminate() {
+        socket.terminated = true;
+        socket.onclose?.({ code: 1006 });
+      },
+    };
+    opened.push(socket);
+    setTimeout(() => socket.onopen?.({}), 0);
+    return socket;
+  };
+  const reconnecting = [];
+  const subscription = new ZapdosSubscription(connect, {
+    heartbeatInterval: 20,
+    reconnect: { baseDelayMs: 10, jitter: "none" },
+    onReconnecting: (info) => reconnecting.push(info.attempt),
+  });
+
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  subscription.close();
+
+  expect(opened.length).toBeGreaterThan(1);
+  expect(opened[0].terminated).toBe(true);
+  expect(reconnecting[0]).toBe(1);
+});
+
+test("browser subscriptions only run a heartbeat when given an interval", async () => {
+  const { createBrowserClient } = require("../src/index.js");
+  // The browser's WebSocket: no protocol pings, only messages
+  const opened = [];
+  class BrowserSocket {
+    constructor() {
+      this.sent = [];
+      opened.push(this);
+    }
+    send(data) {
+      this.sent.push(JSON.parse(data));
+    }
+    close() {
+      this.onclose?.({ code: 1000 });
+    }
+  }
+  const client = createBrowserClient({ baseUrl: api.baseUrl, token: "browser-token" });
+  const listen = async (options) => {
+    const index = opened.length;
+    const subscription = client.listen({ WebSocket: BrowserSocket, reconnect: false, ...options });
+    while (!opened[index]?.onopen) await Promise.resolve();
+    opened[index].onopen({});
+    return subscription;
+  };
+
+  jest.useFakeTimers();
+  try {
+    const quiet = await listen();
+    jest.advanceTimersByTime(120_000);
+    expect(opened[0].sent).toEqual([]);
+    expect(quiet.state).toBe("open");
+    quiet.close();
+
+    const pinging = await listen({ heartbeatInterval: 1000 });
+    jest.advanceTimersByTime(1000);
+    opened[1].onmessage({ data: JSON.stringify({ type: "pong" }) });
+    jest.advanceTimersByTime(1000);
+    expect(opened[1].sent).toEqual([{ type: "ping" }, { type: "ping" }]);
+    expect(pinging.state).toBe("open");
+    jest.advanceTimersByTime(1000);
+    expect(pinging.state).toBe("closed");
+  } finally {
+    jest.useRealTimers();
+  }
+});
@@ -0,0 +1,129 @@
+import { expect, test } from "bun:test";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API: hands out signed URLs, accepts uploads, keeps
+// the metadata of every object and answers queries for objects by sha256.
+// "remote" is stored before any sync.
+let nextObject = 0;
+const sha256 = (content) => crypto.createHash("sha256").update(content).digest("hex");
+const objects = new Map([["remote", { sha256: sha256("stored elsewhere") }]]);
+const puts = [];
+
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  const body = raw.toString();
+  res.setHeader("Content-Type", "application/json");
+
+  if (url.pathname === "/v1/signed-url/put") {
+    const quantity = Number(url.searchParams.get("quantity"));
+    return res.end(JSON.stringify({
+      data: Array.from({ length: quantity }, () => {
+        const id = `obj-${nextObject++}`;
+        return `${api.baseUrl}/upload/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=token-${id}`;
+      }),
+    }));
+  }
+  if (url.pathname.startsWith("/upload/")) {
+    puts.push(url.pathname.split("/")[2]);
+    return res.end();
+  }
+  if (url.pathname === "/v1/query") {
+    const [[column, , hashes]] = JSON.parse(body).where;
+    expect(column).toBe("metadata->>'sha256'");
+    const rows = [...objects].filter(([, metadata]) => hashes.includes(metadata.sha256));
+    return res.end(JSON.stringify({ data: rows.map(([id, metadata]) => ({ id, metadata })) }));
+  }
+  // PATCH /v1/storage/:id
+  const objectId = url.pathname.split("/")[3];
+  objects.set(objectId, JSON.parse(body).metadata);
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.end(JSON.stringify({ data: { type: "metadata_updated", object_id: objectId } }) + "\n");
+}, { client: { retry: { baseDelayMs: 1 } } });
+
+function createTree(files) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-sync-"));
+  for (const [relative, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, relative)), { recursive: true });
+    fs.writeFileSync(path.join(dir, relative), content);
+  }
+  return dir;
+}
+
+const paths = (entries) => entries.map((entry) => entry.path);
+
+test("uploads new files, skips stored content and writes a manifest", async () => {
+  const client = api.client();
+  const dir = createTree({
+    "a.mp4": "video a",
+    "clips/b.mp4": "video b",
+    "clips/copy-of-b.mp4": "video b",
+    "clips/old.mp4": "stored elsewhere",
+    "notes.txt": "not a video",
+  });
+  puts.length = 0;
+
+  const { data } = await client.syncDirectory(dir, { include: ["*.mp4"] });
+
+  expect(paths(data.uploaded)).toEqual(["a.mp4", "clips/b.mp4"]);
+  expect(puts).toHaveLength(2);
+  expect(data.existing).toEqual([
+    { path: "clips/old.mp4", sha256: sha256("stored elsewhere"), object_id: "remote" },
+    { path: "clips/copy-of-b.mp4", sha256: sha256("video b"), object_id: data.uploaded[1].object_id },
+  ]);
+  expect(objects.get(data.uploaded[0].object_id).sha256).toBe(sha256("video a"));
+
+  const manifest = JSON.parse(fs.readFileSync(path.join(dir, ".zapdos-manifest.json"), "utf8"));
+  expect(Object.keys(manifest.files).sort()).toEqual(["a.mp4", "clips/b.mp4", "clips/copy-of-b.mp4", "clips/old.mp4"]);
+  expect(manifest.files["clips/old.mp4"].object_id).toBe("remote");
+});
+
+test("a second run only uploads what changed", async () => {
+  const client = api.client();
+  const dir = createTree({ "a.mp4": "second run a", "b.mp4": "first b" });
+  const first = await client.syncDirectory(dir);
+  fs.writeFileSync(path.join(dir, "b.mp4"), "second b");
+  puts.length = 0;
+
+  const { data } = await client.syncDirectory(dir);
+
+  expect(data.unchanged).toEqual([{ path: "a.mp4", object_id: first.data.uploaded[0].object_id }]);
+  expect(paths(data.uploaded)).toEqual(["b.mp4"]);
+  expect(puts).toEqual([data.uploaded[0].object_id]);
+});
+
+test("dry runs report uploads and deletions without changing anything", async () => {
+  const client = api.client();
+  const dir = createTree({ "keep.mp4": "keep", "gone.mp4": "gone", "skip.mov": "excluded" });
+  const first = await client.syncDirectory(dir, { exclude: ["*.mov"] });
+  fs.rmSync(path.join(dir, "gone.mp4"));
+  fs.writeFileSync(path.join(dir, "new.mp4"), "new");
+  const manifestBefore = fs.readFileSync(path.join(dir, ".zapdos-manifest.json"), "utf8");
+  puts.length = 0;
+
+  const { data } = await client.syncDirectory(dir, { exclude: ["*.mov"], dryRun: true });
+
+  expect(puts).toHaveLength(0);
+  expect(data.uploaded).toEqual([{ path: "new.mp4", sha256: sha256("new"), size: 3 }]);
+  expect(data.deleted).toEqual([{ path: "gone.mp4", object_id: first.data.uploaded[0].object_id }]);
+  expect(paths(data.unchanged)).toEqual(["keep.mp4"]);
+  expect(data.manifest).toBeUndefined();
+  expect(fs.readFileSync(path.join(dir, ".zapdos-manifest.json"), "utf8")).toBe(manifestBefore);
+});
+
+test("keeps a custom manifest out of the sync and records sha256 metadata", async () => {
+  const client = api.client();
+  const dir = createTree({ "a.mp4": "custom manifest a" });
+  puts.length = 0;
+
+  await client.syncDirectory(dir, { manifest: "state.json" });
+  const { data } = await client.syncDirectory(dir, { manifest: "state.json" });
+
+  expect(puts).toHaveLength(1);
+  expect(objects.get(puts[0])).toMatchObject({ sha256: sha256("custom manifest a"), file_name: "a.mp4" });
+  expect(paths(data.unchanged)).toEqual(["a.mp4"]);
+  expect(data.uploaded).toEqual([]);
+});
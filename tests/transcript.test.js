@@ -0,0 +1,101 @@
+import { expect, test } from "bun:test";
+import { standIn } from "./stand-in.js";
+
+const { toCaptions, toParagraphs, toPlainText, toSRT, toWebVTT } = require("../src/index.js");
+
+function word(text, start_ms, end_ms) {
+  return { word: text, start_ms, end_ms };
+}
+
+const transcription = {
+  language: "en",
+  segments: [
+    {
+      id: 0, start_ms: 0, end_ms: 1500, speaker: "Ada", text: " Hello there friend.",
+      words: [word(" Hello", 0, 400), word(" there", 500, 900), word(" friend.", 1000, 1500)],
+    },
+    { id: 1, start_ms: 2000, end_ms: 3000, speaker: "Ada", text: " How are you?" },
+    { id: 2, start_ms: 3200, end_ms: 4000, speaker: "Bob", text: " Fine <thanks>." },
+  ],
+};
+
+test("exports SRT cues per segment", () => {
+  expect(toSRT(transcription, { speakerLabels: true })).toBe(
+    "1\n00:00:00,000 --> 00:00:01,500\nAda: Hello there friend.\n\n" +
+    "2\n00:00:02,000 --> 00:00:03,000\nAda: How are you?\n\n" +
+    "3\n00:00:03,200 --> 00:00:04,000\nBob: Fine <thanks>.\n",
+  );
+});
+
+test("exports WebVTT with escaped text and voice tags", () => {
+  const vtt = toWebVTT(transcription);
+
+  expect(vtt.startsWith("WEBVTT\n\n00:00:00.000 --> 00:00:01.500\n<v Ada>Hello there friend.</v>\n")).toBe(true);
+  expect(vtt).toContain("00:00:03.200 --> 00:00:04.000\n<v Bob>Fine &lt;thanks&gt;.</v>\n");
+});
+
+test("splits cues by line length and duration", () => {
+  const lines = toCaptions(transcription, { maxLineLength: 12, maxLines: 1 });
+  expect(lines.slice(0, 2).map((caption) => caption.lines)).toEqual([["Hello there"], ["friend."]]);
+  expect(lines[1]).toMatchObject({ start_ms: 1000, end_ms: 1500, speaker: "Ada" });
+
+  const wrapped = toCaptions(transcription, { maxLineLength: 12 });
+  expect(wrapped[0].lines).toEqual(["Hello there", "friend."]);
+
+  const short = toCaptions(transcription, { maxCueDuration: 1000 });
+  expect(short.slice(0, 2).map((caption) => caption.lines[0])).toEqual(["Hello there", "friend."]);
+});
+
+test("estimates word timings for segments without them", () => {
+  const [, estimated] = toCaptions(transcription, { maxLineLength: 4, maxLines: 1 }).filter((c) => c.start_ms >= 2000);
+
+  expect(estimated).toMatchObject({ lines: ["are"], start_ms: 2300, end_ms: 2600 });
+});
+
+test("adds word timings for karaoke captions", () => {
+  const vtt = toWebVTT(transcription, { karaoke: true, speakerLabels: false });
+  expect(vtt).toContain("00:00:00.000 --> 00:00:01.500\nHello <00:00:00.500>there <00:00:01.000>friend.\n");
+
+  const srt = toSRT({ language: "en", segments: [transcription.segments[0]] }, { karaoke: true });
+  expect(srt).toBe(
+    "1\n00:00:00,000 --> 00:00:00,500\n<u>Hello</u> there friend.\n\n" +
+    "2\n00:00:00,500 --> 00:00:01,000\nHello <u>there</u> friend.\n\n" +
+    "3\n00:00:01,000 --> 00:00:01,500\nHello there <u>friend.</u>\n",
+  );
+});
+
+test("exports plain text and paragraphs", () => {
+  expect(toPlainText(transcription, { speakerLabels: true })).toBe(
+    "Ada: Hello there friend.\nHow are you?\nBob: Fine <thanks>.",
+  );
+  expect(toParagraphs(transcription, { speakerLabels: true })).toBe(
+    "Ada: Hello there friend. How are you?\n\nBob: Fine <thanks>.",
+  );
+  expect(toParagraphs(transcription, { paragraphGap: 300 })).toBe(
+    "Hello there friend.\n\nHow are you?\n\nFine <thanks>.",
+  );
+});
+
+// Stand-in for the Zapdos query endpoint serving one transcribed and one
+// untranscribed video.
+const api = standIn((req, res, raw) => {
+  const id = JSON.parse(raw).where[0][2];
+  const rows = {
+    "vid-1": [{ id: "vid-1", content: { transcription } }],
+    "vid-2": [{ id: "vid-2", content: {} }],
+  };
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ data: rows[id] ?? [] }));
+});
+
+test("getTranscript returns the transcription of a video", async () => {
+  const client = api.client();
+
+  const found = await client.getTranscript("vid-1");
+  const untranscribed = await client.getTranscript("vid-2");
+  const missing = await client.getTranscript("vid-3");
+
+  expect(found.data.segments).toHaveLength(3);
+  expect(untranscribed.error.code).toBe("not_found");
+  expect(missing.error.code).toBe("not_found");
+});
@@ -0,0 +1,171 @@
+import { expect, test } from "bun:test";
+import axios from "axios";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for any HTTP endpoint: /json echoes the request, /ndjson streams
+// two lines and /missing fails with a JSON error body.
+const api = standIn((req, res, raw) => {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/json") {
+    res.setHeader("Content-Type", "application/json");
+    res.setHeader("X-Request-Id", "req-1");
+    return res.end(JSON.stringify({ method: req.method, query: url.search, body: raw.length ? JSON.parse(raw) : null }));
+  }
+  if (url.pathname === "/ndjson") {
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.write('{"n":1}\n');
+    return setTimeout(() => res.end('{"n":2}\n'), 10);
+  }
+  res.statusCode = 404;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ error: { message: "not found" } }));
+});
+
+async function readText(stream) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+function transports() {
+  const { createAxiosTransport, createFetchTransport } = require("../src/index.js");
+  return [
+    ["fetch", createFetchTransport()],
+    ["axios", createAxiosTransport(axios.create())],
+  ];
+}
+
+test("transports send JSON bodies and parse JSON responses", async () => {
+  for (const [, transport] of transports()) {
+    const response = await transport.request({
+      method: "POST",
+      url: `${api.baseUrl}/json`,
+      params: { page: 2, skip: undefined },
+      body: { name: "a.mp4" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers["x-request-id"]).toBe("req-1");
+    expect(response.data).toEqual({ method: "POST", query: "?page=2", body: { name: "a.mp4" } });
+  }
+});
+
+test("transports resolve streamed responses as web ReadableStreams", async () => {
+  for (const [, transport] of transports()) {
+    const response = await transport.request({ method: "GET", url: `${api.baseUrl}/ndjson`, responseType: "stream" });
+
+    expect(response.data).toBeInstanceOf(ReadableStream);
+    expect(await readText(response.data)).toBe('{"n":1}\n{"n":2}\n');
+  }
+});
+
+test("the axios transport streams responses even with a buffering adapter", async () => {
+  const { createAxiosTransport } = require("../src/index.js");
+  const instance = axios.create({
+    // As XHR does in the browser, hand back the whole body as a string
+    adapter: (config) => Promise.resolve({ data: '{"n":1}\n', status: 200, statusText: "OK", headers: {}, config }),
+  });
+
+  const response = await createAxiosTransport(instance).request({ method: "GET", url: `${api.baseUrl}/ndjson`, responseType: "stream" });
+
+  expect(await readText(response.data)).toBe('{"n":1}\n');
+});
+
+test("transports map failures to TransportError", async () => {
+  const { TransportError } = require("../src/index.js");
+  for (const [, transport] of transports()) {
+    const failed = await transport.request({ method: "GET", url: `${api.baseUrl}/missing` }).catch((error) => error);
+    expect(failed).toBeInstanceOf(TransportError);
+    expect(failed.status).toBe(404);
+    expect(failed.data).toEqual({ error: { message: "not found" } });
+    expect(failed.headers["content-type"]).toBe("application/json");
+
+    const unreachable = await transport.request({ method: "GET", url: "http://127.0.0.1:1/json" }).catch((error) => error);
+    expect(unreachable).toBeInstanceOf(TransportError);
+    expect(unreachable.status).toBeUndefined();
+
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = await transport.request({ method: "GET", url: `${api.baseUrl}/json`, signal: controller.signal }).catch((error) => error);
+    expect(aborted).toBeInstanceOf(TransportError);
+    expect(aborted.cause.name).toBe("AbortError");
+  }
+});
+
+test("the fetch transport reports browser File uploads through XHR", async () => {
+  const { createFetchTransport } = require("../src/index.js");
+  const sent = [];
+  // Browser XHR, sending through fetch and reporting the upload in two halves
+  globalThis.XMLHttpRequest = class {
+    upload = {};
+    headers = {};
+    open(method, url) {
+      Object.assign(this, { method, url });
+    }
+    setRequestHeader(key, value) {
+      this.headers[key] = value;
+    }
+    getAllResponseHeaders() {
+      return [...this.response.headers].map(([key, value]) => `${key}: ${value}`).join("\r\n");
+    }
+    async send(body) {
+      sent.push(this.headers);
+      this.upload.onprogress({ loaded: body.size / 2, total: body.size, lengthComputable: true });
+      this.upload.onprogress({ loaded: body.size, total: body.size, lengthComputable: true });
+      this.response = await fetch(this.url, { method: this.method, headers: this.headers, body });
+      Object.assign(this, { status: this.response.status, responseText: await this.response.text() });
+      this.onload();
+    }
+  };
+  const progress = [];
+
+  try {
+    const response = await createFetchTransport().request({
+      method: "PUT",
+      url: `${api.baseUrl}/json`,
+      params: { part: 1 },
+      headers: { "Content-Type": "application/json", "Content-Length": "12" },
+      body: new Blob(['{"a":"file"}']),
+      onUploadProgress: ({ loaded }) => progress.push(loaded),
+    });
+
+    expect(progress).toEqual([6, 12]);
+    expect(sent).toEqual([{ "Content-Type": "application/json" }]);
+    expect(response.headers["x-request-id"]).toBe("req-1");
+    expect(response.data).toEqual({ method: "PUT", query: "?part=1", body: { a: "file" } });
+  } finally {
+    delete globalThis.XMLHttpRequest;
+  }
+});
+
+test("combined signals abort with the first reason and let go of their sources", () => {
+  const { combineSignals } = require("../src/transport.ts");
+  const any = AbortSignal.any;
+  // Also cover runtimes without AbortSignal.any
+  for (const useAny of [true, false]) {
+    if (!useAny) AbortSignal.any = undefined;
+    try {
+      const batch = new AbortController();
+      const request = new AbortController();
+      const listening = new Set();
+      const add = batch.signal.addEventListener.bind(batch.signal);
+      const remove = batch.signal.removeEventListener.bind(batch.signal);
+      batch.signal.addEventListener = (type, listener, options) => (listening.add(listener), add(type, listener, options));
+      batch.signal.removeEventListener = (type, listener) => (listening.delete(listener), remove(type, listener));
+
+      const combined = combineSignals(batch.signal, request.signal);
+      request.abort(new Error("file cancelled"));
+
+      expect(combined.aborted).toBe(true);
+      expect(combined.reason.message).toBe("file cancelled");
+      if (!useAny) expect(listening.size).toBe(0);
+    } finally {
+      AbortSignal.any = any;
+    }
+  }
+});
@@ -0,0 +1,109 @@
+import { expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API that holds every signed URL upload for a while,
+// so that overlapping uploads can be counted.
+let nextObject = 0;
+let inFlight = 0;
+let maxInFlight = 0;
+
+const api = standIn((req, res) => {
+  const url = new URL(req.url, "http://localhost");
+  if (url.pathname === "/v1/signed-url/put") {
+    const quantity = Number(url.searchParams.get("quantity"));
+    const data = Array.from({ length: quantity }, () => {
+      const id = `obj-${nextObject++}`;
+      return `${api.baseUrl}/storage/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=token-${id}`;
+    });
+    res.setHeader("Content-Type", "application/json");
+    return res.end(JSON.stringify({ data }));
+  }
+
+  const objectId = url.pathname.split("/").pop();
+  if (req.method === "PATCH") {
+    res.setHeader("Content-Type", "application/x-ndjson");
+    return res.end(JSON.stringify({ data: { type: "metadata_updated", object_id: objectId } }) + "\n");
+  }
+
+  inFlight++;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  setTimeout(() => {
+    inFlight--;
+    res.end();
+  }, 30);
+});
+
+function writeTempFiles(count, size) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zapdos-queue-"));
+  const files = Array.from({ length: count }, (_, i) => {
+    const file = path.join(dir, `video-${i}.mp4`);
+    fs.writeFileSync(file, Buffer.alloc(size, i));
+    return file;
+  });
+  return { dir, files };
+}
+
+test("limits the number of files uploaded at once", async () => {
+  const client = api.client();
+  const { dir, files } = writeTempFiles(5, 1000);
+  maxInFlight = 0;
+  const progress = [];
+
+  const results = await client.uploadBatch(files, undefined, {
+    concurrency: 2,
+    onBatchProgress: (p) => progress.push(p),
+  });
+
+  expect(results.every((result) => result.data)).toBe(true);
+  expect(maxInFlight).toBe(2);
+  const last = progress[progress.length - 1];
+  expect(last.loaded).toBe(5000);
+  expect(last.total).toBe(5000);
+  expect(last.eta_ms).toBe(0);
+  expect(last.files).toEqual({ total: 5, completed: 5, failed: 0 });
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("does not start new files while the queue is paused", async () => {
+  const { UploadQueue } = require("../src/index.js");
+  const client = api.client();
+  const { dir, files } = writeTempFiles(3, 100);
+  const queue = new UploadQueue({ concurrency: 1 });
+  const stored = [];
+  queue.pause();
+
+  const pending = client.uploadBatch(files, { onStored: ({ file_index }) => stored.push(file_index) }, { queue });
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  expect(stored).toEqual([]);
+  expect(queue.pending).toBe(3);
+
+  queue.resume();
+  const results = await pending;
+  expect(results.every((result) => result.data)).toBe(true);
+  expect(stored).toEqual([0, 1, 2]);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("cancels files still waiting for a slot of a paused queue", async () => {
+  const { UploadQueue } = require("../src/index.js");
+  const client = api.client();
+  const queue = new UploadQueue({ concurrency: 1 });
+  const controller = new AbortController();
+  const failed = [];
+  queue.pause();
+
+  const pending = client.uploadBatch(
+    [{ data: Buffer.from("a"), name: "a.mp4" }, { data: Buffer.from("b"), name: "b.mp4" }],
+    { onFailed: ({ file_index }) => failed.push(file_index) },
+    { queue, signal: controller.signal },
+  );
+  setTimeout(() => controller.abort(), 50);
+  const results = await pending;
+
+  expect(results.map((result) => result.error?.error.code)).toEqual(["aborted", "aborted"]);
+  expect(failed.sort()).toEqual([0, 1]);
+  expect(queue.pending).toBe(0);
+});
@@ -0,0 +1,120 @@
+import { expect, test } from "bun:test";
+import { Readable } from "node:stream";
+import { json, standIn } from "./stand-in.js";
+
+// Stand-in for the Zapdos API recording single-request uploads, multipart
+// uploads and the metadata stored for each object.
+let nextObject = 0;
+const puts = new Map();
+const multipart = new Map();
+const metadata = new Map();
+
+const api = standIn((req, res, body) => {
+  const url = new URL(req.url, "http://localhost");
+  const [, , , objectId, segment, uploadId, action, partNumber] = url.pathname.split("/");
+
+  if (url.pathname === "/v1/signed-url/put") {
+    const quantity = Number(url.searchParams.get("quantity"));
+    return json(res, 200, {
+      data: Array.from({ length: quantity }, () => {
+        const id = `obj-${nextObject++}`;
+        return `${api.baseUrl}/upload/${id}?X-Zapdos-Obj-Id=${id}&X-Zapdos-Token=token-${id}`;
+      }),
+    });
+  }
+  if (url.pathname.startsWith("/upload/")) {
+    puts.set(url.pathname.split("/")[2], { body, headers: req.headers });
+    return res.end();
+  }
+  if (segment === "multipart") {
+    if (!uploadId) {
+      multipart.set(objectId, { init: JSON.parse(body.toString()), parts: [] });
+      return json(res, 200, { data: { upload_id: `upload-${objectId}` } });
+    }
+    const upload = multipart.get(objectId);
+    if (action === "parts") {
+      upload.parts[Number(partNumber) - 1] = body;
+      return json(res, 200, { data: { etag: `etag-${partNumber}` } });
+    }
+    upload.complete = JSON.parse(body.toString());
+    return json(res, 200, { data: {} });
+  }
+  // PATCH /v1/storage/:id
+  metadata.set(objectId, JSON.parse(body.toString()).metadata);
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.end(JSON.stringify({ data: { type: "metadata_updated", object_id: objectId } }) + "\n");
+}, { client: { retry: { baseDelayMs: 1 } } });
+
+function bytes(size) {
+  return Buffer.from(Array.from({ length: size }, (_, i) => i % 251));
+}
+
+// A stream handing out `data` in uneven chunks, like a pipe would
+function streamOf(data) {
+  return Readable.from((function* () {
+    for (let offset = 0; offset < data.length; offset += 1500) yield data.subarray(offset, offset + 1500);
+  })());
+}
+
+test("uploads Buffers and Blobs with their name", async () => {
+  const client = api.client();
+  const data = bytes(3000);
+
+  const results = await client.uploadBatch([
+    { name: "clip.bin", data },
+    { name: "notes.txt", data: new Blob(["hello"]) },
+  ]);
+
+  const [first, second] = results.map((result) => result.data.object_id);
+  expect(puts.get(first).body.equals(data)).toBe(true);
+  expect(puts.get(second).body.toString()).toBe("hello");
+  expect(metadata.get(first)).toMatchObject({ file_name: "clip.bin", size: 3000 });
+  expect(metadata.get(second)).toMatchObject({ file_name: "notes.txt", size: 5, content_type: "text/plain" });
+});
+
+test("streams of unknown size are sent with chunked transfer encoding", async () => {
+  const client = api.client();
+  const data = bytes(5000);
+
+  const [result] = await client.upload({ name: "stdout.bin", data: streamOf(data) });
+
+  const put = puts.get(result.data.object_id);
+  expect(put.headers["transfer-encoding"]).toBe("chunked");
+  expect(put.body.equals(data)).toBe(true);
+  expect(metadata.get(result.data.object_id).size).toBe(5000);
+});
+
+test("streams of unknown size are uploaded in parts when chunked", async () => {
+  const client = api.client();
+  const data = bytes(10_000);
+  const progress = [];
+
+  const [result] = await client.upload(
+    { name: "stdout.bin", data: streamOf(data) },
+    { onProgress: ({ loaded }) => progress.push(loaded) },
+    { chunked: { partSize: 4096 } },
+  );
+
+  const upload = multipart.get(result.data.object_id);
+  expect(upload.init).toEqual({ part_size: 4096, file_name: "stdout.bin" });
+  expect(upload.parts.map((part) => part.length)).toEqual([4096, 4096, 1808]);
+  expect(Buffer.concat(upload.parts).equals(data)).toBe(true);
+  expect(upload.complete.size).toBe(10_000);
+  expect(progress.at(-1)).toBe(10_000);
+  expect(metadata.get(result.data.object_id).size).toBe(10_000);
+});
+
+test("streams of known size are read part by part", async () => {
+  const client = api.client();
+  const data = bytes(8192);
+
+  const [result] = await client.upload({ name: "s3.bin", data: streamOf(data), size: 8192 }, undefined, {
+    chunked: { partSize: 4096 },
+  });
+
+  const upload = multipart.get(result.data.object_id);
+  expect(upload.init.size).toBe(8192);
+  expect(upload.parts.map((part) => part.length)).toEqual([4096, 4096]);
+  expect(upload.complete.size).toBeUndefined();
+  expect(metadata.get(result.data.object_id).size).toBe(8192);
+});
@@ -0,0 +1,77 @@
+import { expect, test } from "bun:test";
+import { standIn } from "./stand-in.js";
+
+// Stand-in for the signed URL endpoint recording the ids of every call.
+// URLs expire `lifetimeMs` after they are handed out.
+const calls = [];
+let lifetimeMs = 3_600_000;
+
+const api = standIn((req, res) => {
+  const ids = new URL(req.url, "http://localhost").searchParams.get("ids").split(",");
+  calls.push(ids);
+  const urls = Object.fromEntries(ids.filter((id) => id !== "missing").map((id) => [id, `https://cdn.test/${id}?v=${calls.length}`]));
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ data: { urls, expires_at: new Date(Date.now() + lifetimeMs).toISOString() } }));
+});
+
+test("batches concurrent lookups into one request and reuses the URLs", async () => {
+  const client = api.client();
+  calls.length = 0;
+
+  const [a, b, both] = await Promise.all([
+    client.getDownloadUrl("a"),
+    client.getDownloadUrl("b"),
+    client.getDownloadUrls(["a", "c", "missing"]),
+  ]);
+  const again = await client.getDownloadUrls(["a", "b", "c"]);
+
+  expect(calls).toEqual([["a", "b", "c", "missing"]]);
+  expect(a.data.url).toBe("https://cdn.test/a?v=1");
+  expect(b.data.url).toBe("https://cdn.test/b?v=1");
+  expect(Object.keys(both.data.urls)).toEqual(["a", "c"]);
+  expect(again.data.urls.b).toBe("https://cdn.test/b?v=1");
+});
+
+test("fetches URLs again shortly before they expire", async () => {
+  const client = api.client({ urlCache: { refreshBeforeMs: 60_000 } });
+  calls.length = 0;
+  lifetimeMs = 30_000;
+
+  await client.getDownloadUrls(["a"]);
+  const refreshed = await client.getDownloadUrls(["a"]);
+  lifetimeMs = 3_600_000;
+
+  expect(calls).toEqual([["a"], ["a"]]);
+  expect(refreshed.data.urls.a).toBe("https://cdn.test/a?v=2");
+});
+
+test("keeps URLs in a pluggable store", async () => {
+  const entries = new Map();
+  const store = {
+    get: async (id) => entries.get(id),
+    set: async (id, entry) => void entries.set(id, entry),
+    delete: async (id) => void entries.delete(id),
+  };
+  entries.set("a", { url: "https://cdn.test/shared-a", expires_at: new Date(Date.now() + 3_600_000).toISOString() });
+  const client = api.client({ urlCache: { store } });
+  calls.length = 0;
+
+  const result = await client.getDownloadUrls(["a", "b"]);
+
+  expect(calls).toEqual([["b"]]);
+  expect(result.data.urls).toEqual({ a: "https://cdn.test/shared-a", b: "https://cdn.test/b?v=1" });
+  expect(entries.get("b").url).toBe("https://cdn.test/b?v=1");
+
+  await client.urlCache.invalidate(["a"]);
+  expect(entries.has("a")).toBe(false);
+});
+
+test("fetches new URLs on every call without the cache", async () => {
+  const client = api.client({ urlCache: false });
+  calls.length = 0;
+
+  await client.getDownloadUrls(["a"]);
+  await client.getDownloadUrls(["a"]);
+
+  expect(calls).toEqual([["a"], ["a"]]);
+});
@@ -0,0 +1,18 @@
+import { defineConfig } from "vite";
+
+// The `zapdos` bin. Built for Node.js only, so unlike the library build,
+// Node's built-in modules and the dependencies are left to Node.
+export default defineConfig({
+  build: {
+    ssr: "src/cli/bin.ts",
+    outDir: "dist",
+    emptyOutDir: false,
+    rollupOptions: {
+      output: {
+        format: "cjs",
+        entryFileNames: "cli.cjs",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});
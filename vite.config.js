@@ -1,6 +1,12 @@
+import { builtinModules } from "node:module";
 import { defineConfig } from "vite";
 import dts from "vite-plugin-dts";
 
+// Node's built-in modules and the dependencies only the backend client uses.
+// Left to Node rather than replaced by browser stubs, which would break that
+// client; browsers never load them.
+const nodeOnly = [...builtinModules, ...builtinModules.map((name) => `node:${name}`), "jsonwebtoken", "ws"];
+
 export default defineConfig({
   build: {
     lib: {
@@ -10,8 +16,10 @@ export default defineConfig({
       fileName: (format) => `index.${format}.js`,
     },
     rollupOptions: {
-      external: [], // list external deps here if any
+      external: nodeOnly,
       output: {
+        // Undefined in the browser, where the UMD build is loaded
+        globals: Object.fromEntries(nodeOnly.map((name) => [name, name])),
         exports: "named", // 👈 suppress warning about mixed exports
       },
     },